@@ -0,0 +1,40 @@
+/**
+ * API route to stream an upload job's progress as Server-Sent Events
+ *
+ * Replays every message after the Last-Event-ID header (or `lastEventId`
+ * query parameter) and then follows the job until it finishes.
+ */
+
+import { NextRequest } from "next/server";
+import { SSE_HEADERS, createJobEventStream } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const lastEventId =
+    Number(
+      request.headers.get("last-event-id") ||
+        request.nextUrl.searchParams.get("lastEventId")
+    ) || 0;
+
+  const stream = await createJobEventStream(id, lastEventId);
+
+  if (!stream) {
+    return new Response(
+      JSON.stringify({ type: "error", error: "Job not found" }),
+      {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  return new Response(stream, {
+    headers: SSE_HEADERS,
+  });
+}
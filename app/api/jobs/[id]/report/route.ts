@@ -0,0 +1,51 @@
+/**
+ * API route to download an upload job's run report as JSON or CSV
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getJobReport } from "@/lib/jobs";
+import { runReportToCsv } from "@/lib/report";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const format = request.nextUrl.searchParams.get("format") || "json";
+
+  if (format !== "json" && format !== "csv") {
+    return NextResponse.json(
+      { success: false, error: "Format must be json or csv" },
+      { status: 400 }
+    );
+  }
+
+  const report = await getJobReport(id);
+
+  if (!report) {
+    return NextResponse.json(
+      { success: false, error: "Job not found" },
+      { status: 404 }
+    );
+  }
+
+  const filename = `intercom-run-${report.jobId}.${format}`;
+
+  if (format === "csv") {
+    return new Response(runReportToCsv(report), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  }
+
+  return new Response(JSON.stringify(report, null, 2), {
+    headers: {
+      "Content-Type": "application/json",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
@@ -0,0 +1,34 @@
+/**
+ * API route to re-publish the failed events of a finished upload job
+ *
+ * Reuses the job's original events, mapping, event settings and mode.
+ * Progress is streamed on the job's event stream, starting after `fromEventId`.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { RetryJobResponse } from "@/lib/types";
+import { retryFailedEvents } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const outcome = await retryFailedEvents(id);
+
+  if ("error" in outcome) {
+    return NextResponse.json<RetryJobResponse>(
+      { success: false, error: outcome.error },
+      { status: outcome.status }
+    );
+  }
+
+  return NextResponse.json<RetryJobResponse>({
+    success: true,
+    job: outcome.job,
+    retrying: outcome.retrying,
+    fromEventId: outcome.fromEventId,
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * API route to get the status of an upload job
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { JobStatusResponse } from "@/lib/types";
+import { getJob } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = await getJob(id);
+
+  if (!job) {
+    return NextResponse.json<JobStatusResponse>(
+      { success: false, error: "Job not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json<JobStatusResponse>({ success: true, job });
+}
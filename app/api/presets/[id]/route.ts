@@ -0,0 +1,75 @@
+/**
+ * API route to read, update and delete a saved mapping preset
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { PresetResponse } from "@/lib/types";
+import {
+  deletePreset,
+  getPreset,
+  updatePreset,
+  type PresetInput,
+} from "@/lib/presets";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const preset = await getPreset(id);
+
+  if (!preset) {
+    return NextResponse.json<PresetResponse>(
+      { success: false, error: "Preset not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json<PresetResponse>({ success: true, preset });
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  let input: PresetInput;
+  try {
+    input = (await request.json()) as PresetInput;
+  } catch {
+    return NextResponse.json<PresetResponse>(
+      { success: false, error: "Invalid preset format" },
+      { status: 400 }
+    );
+  }
+
+  const outcome = await updatePreset(id, input);
+
+  if ("error" in outcome) {
+    return NextResponse.json<PresetResponse>(
+      { success: false, error: outcome.error },
+      { status: outcome.status }
+    );
+  }
+
+  return NextResponse.json<PresetResponse>({ success: true, preset: outcome.preset });
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!(await deletePreset(id))) {
+    return NextResponse.json<PresetResponse>(
+      { success: false, error: "Preset not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json<PresetResponse>({ success: true });
+}
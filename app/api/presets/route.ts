@@ -0,0 +1,40 @@
+/**
+ * API route to list and create saved mapping presets
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { PresetListResponse, PresetResponse } from "@/lib/types";
+import { createPreset, listPresets, type PresetInput } from "@/lib/presets";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const presets = await listPresets();
+  return NextResponse.json<PresetListResponse>({ success: true, presets });
+}
+
+export async function POST(request: NextRequest) {
+  let input: PresetInput;
+  try {
+    input = (await request.json()) as PresetInput;
+  } catch {
+    return NextResponse.json<PresetResponse>(
+      { success: false, error: "Invalid preset format" },
+      { status: 400 }
+    );
+  }
+
+  const outcome = await createPreset(input);
+
+  if ("error" in outcome) {
+    return NextResponse.json<PresetResponse>(
+      { success: false, error: outcome.error },
+      { status: outcome.status }
+    );
+  }
+
+  return NextResponse.json<PresetResponse>(
+    { success: true, preset: outcome.preset },
+    { status: 201 }
+  );
+}
@@ -1,260 +1,38 @@
 /**
  * API route to preview CSV file columns and suggest mappings
+ *
+ * Uploaded files are spooled to disk as they arrive. The preview is sent as
+ * soon as each file's header has been read; the rows are then streamed to
+ * count and check them, without reading whole files into memory.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import Papa from "papaparse";
-import type { CSVPreview, PreviewResponse, ColumnMapping, EventSettings } from "@/lib/types";
+import type { ColumnMapping, CSVPreview, PreviewMessage, PreviewResponse } from "@/lib/types";
+import { findMatchingPreset } from "@/lib/presets";
+import { SSE_HEADERS } from "@/lib/jobs";
+import { getSourceAdapter, isSourceId, readSourceHead, type SourceHead } from "@/lib/sources";
+import { readSourceRows } from "@/lib/sources/stream";
+import { spoolUpload, type SpooledUpload } from "@/lib/multipart";
+import { createRowValidator } from "@/lib/validation";
 
 export const runtime = "nodejs";
 
-/**
- * Normalize CSV column names to handle variations
- */
-function normalizeColumnName(column: string): string {
-    return column.toLowerCase().trim().replace(/\s+/g, "");
-}
-
-/**
- * Extract event name and date from filename
- * Expected format: "Event Name - Guests - YYYY-MM-DD-HH-MM-SS.csv"
- */
-function extractEventSettingsFromFilename(filename: string): EventSettings | undefined {
-    // Remove .csv extension
-    const nameWithoutExt = filename.replace(/\.csv$/i, "");
-
-    // Pattern: "Event Name - Guests - YYYY-MM-DD-HH-MM-SS"
-    const match = nameWithoutExt.match(/^(.+?)\s*-\s*Guests\s*-\s*(\d{4}-\d{2}-\d{2}-\d{2}-\d{2}-\d{2})$/);
-
-    if (!match) {
-        return undefined;
-    }
-
-    const eventName = match[1].trim();
-    const dateTimeStr = match[2]; // YYYY-MM-DD-HH-MM-SS
-
-    // Parse the date-time string: YYYY-MM-DD-HH-MM-SS
-    const parts = dateTimeStr.split("-");
-    if (parts.length !== 6) {
-        return undefined;
-    }
-
-    const year = parts[0];
-    const month = parts[1];
-    const day = parts[2];
-    const hour = parts[3];
-    const minute = parts[4];
-    const second = parts[5];
-
-    // Format as YYYY-MM-DD for eventDate
-    const eventDate = `${year}-${month}-${day}`;
-
-    // Format as HH:MM:SS for eventTime
-    const eventTime = `${hour}:${minute}:${second}`;
-
-    return {
-        eventName,
-        eventDate,
-        eventTime,
-    };
-}
-
-/**
- * Suggest column mapping based on column names
- */
-function suggestMapping(columns: string[]): ColumnMapping {
-    const mapping: ColumnMapping = { email: "" };
-    const normalizedColumns = columns.map((col) => ({
-        original: col,
-        normalized: normalizeColumnName(col),
-    }));
-
-    // Find email column (prioritize exact Luma field name)
-    for (const col of normalizedColumns) {
-        if (col.normalized === "email") {
-            mapping.email = col.original;
-            break;
-        }
-    }
-    // If not found, try alternatives
-    if (!mapping.email) {
-        for (const col of normalizedColumns) {
-            if (
-                col.normalized === "e-mail" ||
-                col.normalized === "emailaddress" ||
-                col.normalized === "e_mail"
-            ) {
-                mapping.email = col.original;
-                break;
-            }
-        }
-    }
-
-    // Find name column (prioritize exact Luma field name)
-    for (const col of normalizedColumns) {
-        if (col.normalized === "name") {
-            mapping.name = col.original;
-            break;
-        }
-    }
-    // If not found, try alternatives
-    if (!mapping.name) {
-        for (const col of normalizedColumns) {
-            if (
-                col.normalized === "fullname" ||
-                col.normalized === "full_name" ||
-                col.normalized === "attendeename" ||
-                col.normalized === "attendee_name"
-            ) {
-                mapping.name = col.original;
-                break;
-            }
-        }
-    }
-
-    // Find phone_number column (prioritize exact Luma field name)
-    for (const col of normalizedColumns) {
-        if (col.normalized === "phone_number" || col.normalized === "phonenumber") {
-            mapping.phone_number = col.original;
-            break;
-        }
-    }
-    // If not found, try alternatives
-    if (!mapping.phone_number) {
-        for (const col of normalizedColumns) {
-            if (
-                col.normalized === "phone" ||
-                col.normalized === "phonenum" ||
-                col.normalized === "mobile" ||
-                col.normalized === "telephone"
-            ) {
-                mapping.phone_number = col.original;
-                break;
-            }
-        }
-    }
-
-    // Find registration date column (prioritize Luma created_at field)
-    for (const col of normalizedColumns) {
-        if (col.normalized === "created_at" || col.normalized === "createdat") {
-            mapping.registrationDate = col.original;
-            break;
-        }
-    }
-    // If not found, try alternatives
-    if (!mapping.registrationDate) {
-        for (const col of normalizedColumns) {
-            if (
-                col.normalized === "registrationdate" ||
-                col.normalized === "registration_date" ||
-                col.normalized === "registered"
-            ) {
-                mapping.registrationDate = col.original;
-                break;
-            }
-        }
-    }
-
-    // Find attendance date column
-    for (const col of normalizedColumns) {
-        if (
-            col.normalized === "attendancedate" ||
-            col.normalized === "attendance_date" ||
-            col.normalized === "attended" ||
-            col.normalized === "checkedin"
-        ) {
-            mapping.attendanceDate = col.original;
-            break;
-        }
-    }
-
-    // Find ticket type column (prioritize Luma ticket_name field)
-    for (const col of normalizedColumns) {
-        if (col.normalized === "ticket_name" || col.normalized === "ticketname") {
-            mapping.ticketType = col.original;
-            break;
-        }
-    }
-    // If not found, try alternatives
-    if (!mapping.ticketType) {
-        for (const col of normalizedColumns) {
-            if (
-                col.normalized === "tickettype" ||
-                col.normalized === "ticket_type" ||
-                col.normalized === "ticket"
-            ) {
-                mapping.ticketType = col.original;
-                break;
-            }
-        }
-    }
-
-    // Find approval_status column (prioritize Luma approval_status field)
-    for (const col of normalizedColumns) {
-        if (col.normalized === "approval_status" || col.normalized === "approvalstatus") {
-            mapping.approval_status = col.original;
-            break;
-        }
-    }
-    // If not found, try alternatives
-    if (!mapping.approval_status) {
-        for (const col of normalizedColumns) {
-            if (
-                col.normalized === "approval" ||
-                col.normalized === "status"
-            ) {
-                mapping.approval_status = col.original;
-                break;
-            }
-        }
-    }
-
-    // Find status column (for other status fields)
-    for (const col of normalizedColumns) {
-        if (col.normalized === "status" && !mapping.approval_status) {
-            mapping.status = col.original;
-            break;
-        }
-    }
-    // If not found, try alternatives
-    if (!mapping.status) {
-        for (const col of normalizedColumns) {
-            if (col.normalized === "status") {
-                mapping.status = col.original;
-                break;
-            }
-        }
-    }
-
-    // Find hasJoinedEvent column (prioritize exact Luma field name)
-    for (const col of normalizedColumns) {
-        if (col.normalized === "has_joined_event" || col.normalized === "hasjoinedevent") {
-            mapping.hasJoinedEvent = col.original;
-            break;
-        }
-    }
-    // If not found, try alternatives
-    if (!mapping.hasJoinedEvent) {
-        for (const col of normalizedColumns) {
-            if (
-                col.normalized === "joined" ||
-                col.normalized === "attended"
-            ) {
-                mapping.hasJoinedEvent = col.original;
-                break;
-            }
-        }
-    }
-
-    return mapping;
-}
+// Rows between progress messages
+const PROGRESS_INTERVAL = 5000;
 
 export async function POST(request: NextRequest) {
+    let upload: SpooledUpload | undefined;
+    // Set once the row check owns the spooled files and removes them itself
+    let checkingRows = false;
     try {
-        const formData = await request.formData();
-        const file = formData.get("file") as File | null;
-
-        if (!file) {
+        upload = await spoolUpload(request);
+        const { formData } = upload;
+        // Several files can be previewed together as one batch
+        const files = formData
+            .getAll("file")
+            .filter((entry): entry is File => entry instanceof File);
+
+        if (files.length === 0) {
             return NextResponse.json<PreviewResponse>(
                 {
                     success: false,
@@ -266,73 +44,165 @@ export async function POST(request: NextRequest) {
         }
 
         // Validate file type
-        if (!file.name.endsWith(".csv")) {
+        const nonCsvFile = files.find((file) => !file.name.endsWith(".csv"));
+        if (nonCsvFile) {
             return NextResponse.json<PreviewResponse>(
                 {
                     success: false,
-                    error: "File must be a CSV file",
+                    error: files.length > 1
+                        ? `${nonCsvFile.name}: File must be a CSV file`
+                        : "File must be a CSV file",
                     preview: { columns: [], sampleRow: {}, totalRows: 0 },
                 },
                 { status: 400 }
             );
         }
 
-        // Read file content
-        const text = await file.text();
+        // Parse with the requested source's adapter, or detect it from the headers
+        const requestedSource = formData.get("source");
+        const parsedFiles: Array<SourceHead & { file: File }> = [];
+        for (const file of files) {
+            const parsed = await readSourceHead(
+                file,
+                file.name,
+                isSourceId(requestedSource) ? requestedSource : undefined
+            );
 
-        // Parse CSV (only first few rows for preview)
-        const parseResult = Papa.parse<Record<string, string>>(text, {
-            header: true,
-            skipEmptyLines: true,
-            transformHeader: (header: string) => header.trim(),
-            preview: 5, // Only parse first 5 rows for preview
-        });
+            if (parsed.columns.length === 0) {
+                return NextResponse.json<PreviewResponse>(
+                    {
+                        success: false,
+                        error: files.length > 1
+                            ? `${file.name}: CSV file appears to have no columns`
+                            : "CSV file appears to have no columns",
+                        preview: { columns: [], sampleRow: {}, totalRows: 0 },
+                    },
+                    { status: 400 }
+                );
+            }
 
-        if (parseResult.errors.length > 0) {
-            console.warn("CSV parsing errors:", parseResult.errors);
+            parsedFiles.push({ file, ...parsed });
         }
 
-        // Get columns
-        const columns = parseResult.meta.fields || [];
+        // The files share one mapping, so only offer columns every file has
+        const [first] = parsedFiles;
+        const columns = first.columns.filter((column) =>
+            parsedFiles.every((parsed) => parsed.columns.includes(column))
+        );
 
         if (columns.length === 0) {
             return NextResponse.json<PreviewResponse>(
                 {
                     success: false,
-                    error: "CSV file appears to have no columns",
+                    error: "The CSV files have no columns in common",
                     preview: { columns: [], sampleRow: {}, totalRows: 0 },
                 },
                 { status: 400 }
             );
         }
 
-        // Get sample row (first non-empty row)
-        const sampleRow = parseResult.data[0] || {};
-
-        // Count total rows (need to parse again without preview limit)
-        const countResult = Papa.parse<Record<string, string>>(text, {
-            header: true,
-            skipEmptyLines: true,
-        });
-        const totalRows = countResult.data.length;
-
         const preview: CSVPreview = {
             columns,
-            sampleRow,
-            totalRows,
+            // Get sample row (first non-empty row)
+            sampleRow: first.sampleRows[0] || {},
         };
 
-        // Suggest mapping
-        const suggestedMapping = suggestMapping(columns);
+        // Suggest mapping; a saved preset matching the headers takes precedence
+        const suggestedMapping = getSourceAdapter(first.source).suggestMapping(columns);
+        const matchedPreset = await findMatchingPreset(columns);
+
+        // Extract event settings from the filename or file contents
+        const extractedEventSettings = first.eventSettings;
+
+        // Check every row against the chosen mapping, or the one the page will start with
+        let mapping: ColumnMapping = matchedPreset?.preset.mapping || suggestedMapping;
+        const mappingJson = formData.get("mapping") as string | null;
+        if (mappingJson) {
+            try {
+                mapping = JSON.parse(mappingJson);
+            } catch {
+                return NextResponse.json<PreviewResponse>(
+                    {
+                        success: false,
+                        error: "Invalid column mapping",
+                        preview: { columns: [], sampleRow: {}, totalRows: 0 },
+                    },
+                    { status: 400 }
+                );
+            }
+        }
 
-        // Extract event settings from filename
-        const extractedEventSettings = extractEventSettingsFromFilename(file.name);
+        const encoder = new TextEncoder();
+        const { cleanup } = upload;
+        let cancelled = false;
+        const stream = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                const send = (message: PreviewMessage) => {
+                    if (!cancelled) {
+                        controller.enqueue(encoder.encode(`data: ${JSON.stringify(message)}\n\n`));
+                    }
+                };
+
+                send({
+                    type: "preview",
+                    success: true,
+                    preview,
+                    source: first.source,
+                    suggestedMapping,
+                    matchedPreset: matchedPreset || undefined,
+                    extractedEventSettings,
+                    files: parsedFiles.map((parsed) => ({
+                        filename: parsed.file.name,
+                        source: parsed.source,
+                        extractedEventSettings: parsed.eventSettings,
+                    })),
+                });
+
+                try {
+                    const validator = createRowValidator(mapping, parsedFiles.length > 1);
+                    const fileRows: number[] = [];
+                    let totalRows = 0;
+                    for (const parsed of parsedFiles) {
+                        let rowCount = 0;
+                        for await (const { row, rowNumber } of readSourceRows(parsed.file, parsed)) {
+                            // Stop reading once the page has stopped listening
+                            if (cancelled) {
+                                throw new Error("Preview cancelled");
+                            }
+                            validator.check(row, rowNumber, parsed.file.name);
+                            rowCount++;
+                            totalRows++;
+                            if (totalRows % PROGRESS_INTERVAL === 0) {
+                                send({ type: "progress", totalRows });
+                            }
+                        }
+                        fileRows.push(rowCount);
+                    }
+
+                    send({ type: "complete", totalRows, fileRows, validation: validator.finish() });
+                } catch (error) {
+                    if (!cancelled) {
+                        console.error("Error reading CSV rows:", error);
+                    }
+                    send({
+                        type: "error",
+                        error: error instanceof Error ? error.message : "Unknown error occurred",
+                    });
+                }
+
+                await cleanup();
+                if (!cancelled) {
+                    controller.close();
+                }
+            },
+            cancel() {
+                cancelled = true;
+            },
+        });
 
-        return NextResponse.json<PreviewResponse>({
-            success: true,
-            preview,
-            suggestedMapping,
-            extractedEventSettings,
+        checkingRows = true;
+        return new Response(stream, {
+            headers: SSE_HEADERS,
         });
     } catch (error) {
         console.error("Error previewing CSV:", error);
@@ -350,6 +220,10 @@ export async function POST(request: NextRequest) {
             },
             { status: 500 }
         );
+    } finally {
+        if (upload && !checkingRows) {
+            await upload.cleanup();
+        }
     }
 }
 
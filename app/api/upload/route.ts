@@ -1,35 +1,93 @@
 /**
  * API route to handle CSV file upload, parsing, and publishing events to Intercom
+ *
+ * Uploaded files are spooled to disk as they arrive. Rows are then read one
+ * at a time and each attendee's events go straight to the publishing job, so
+ * memory use doesn't grow with the size of the file.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import Papa from "papaparse";
 import type {
   LumaAttendee,
   ProcessedAttendee,
   IntercomEvent,
-  ProcessingResult,
   ColumnMapping,
   EventSettings,
+  DryRunEvent,
+  DryRunResponse,
+  SkippedRow,
+  ContactRole,
+  SourceId,
 } from "@/lib/types";
-import { publishEventsWithProgress } from "@/lib/intercom";
+import {
+  buildCompanyPayload,
+  buildContactPayload,
+  buildEventPayload,
+} from "@/lib/intercom";
+import { SSE_HEADERS, createJob, createJobEventStream, runJob } from "@/lib/jobs";
+import { resolveEventNames, validateEventNames } from "@/lib/eventNames";
+import {
+  LIFECYCLE_EVENT_NAMES,
+  getEventStartTime,
+  getLifecycleEvents,
+  validateLifecycleEvents,
+} from "@/lib/lifecycle";
+import { resolveTagNames, validateTagTemplates } from "@/lib/tags";
+import {
+  MAX_METADATA_VALUE_LENGTH,
+  extractMetadata,
+  validateMetadataMappings,
+} from "@/lib/metadata";
+import {
+  extractCustomAttributes,
+  validateCustomAttributeMappings,
+} from "@/lib/customAttributes";
+import { isSourceId, readSourceHead, toEventDateTime, type SourceHead } from "@/lib/sources";
+import { readSourceRows } from "@/lib/sources/stream";
+import {
+  ATTENDANCE_MINUTES_METADATA_KEY,
+  getAttendanceMinutes,
+  getFirstJoinTime,
+  hasAttendanceDurationColumns,
+  meetsAttendanceThreshold,
+  parseAttendanceSession,
+  validateAttendanceSettings,
+} from "@/lib/attendance";
+import {
+  findUnparseableDates,
+  parseDateFlag,
+  parseDateTime,
+  validateTimezone,
+} from "@/lib/dates";
+import { checkEmail, isValidEmail, normalizeEmail, validateEmailRules } from "@/lib/emails";
+import { createRowMerger } from "@/lib/duplicates";
+import { normalizePhone, validatePhoneCountry } from "@/lib/phones";
+import { getContactName } from "@/lib/names";
+import { spoolUpload, type SpooledUpload } from "@/lib/multipart";
+import { VALIDATION_ISSUE_LABELS, createRowValidator } from "@/lib/validation";
 
 export const runtime = "nodejs";
 export const maxDuration = 300; // 5 minutes for processing large files
 
-
+// Payloads a dry run returns for review; its counts cover every event
+const MAX_DRY_RUN_PAYLOADS = 1000;
+// Skipped rows and CSV warnings a dry run lists; the rest are only counted
+const MAX_DRY_RUN_ROWS = 1000;
 
 /**
  * Extract attendee data from CSV row using column mapping
  */
 function parseAttendee(
   row: Record<string, string>,
-  mapping: ColumnMapping
+  mapping: ColumnMapping,
+  timezone?: string,
+  onMetadataTruncated?: (key: string) => void,
+  onInvalidAttribute?: (attribute: string, value: string, type: string) => void
 ): LumaAttendee | null {
-  // Get email using mapping (required)
-  const email = mapping.email ? (row[mapping.email] || "").trim() : "";
+  // Get email using mapping (required), lowercased so the same person matches once
+  const email = mapping.email ? normalizeEmail(row[mapping.email] || "") : "";
 
-  if (!email || !email.includes("@")) {
+  if (!email || !isValidEmail(email)) {
     return null; // Invalid email
   }
 
@@ -45,132 +103,232 @@ function parseAttendee(
       value === "joined";
   }
 
+  // A date column may just say yes or no; "no" means the action didn't happen
+  const readDate = (column?: string) => {
+    const value = column ? (row[column] || "").trim() : "";
+    return parseDateFlag(value) === false ? "" : value;
+  };
+
+  // Join/leave times or a duration, merged with the person's other rows later
+  let attendanceSessions: LumaAttendee["attendanceSessions"];
+  if (hasAttendanceDurationColumns(mapping)) {
+    const session = parseAttendanceSession(row, mapping, timezone);
+    attendanceSessions = session ? [session] : [];
+  }
+
   return {
     email,
-    name: mapping.name ? (row[mapping.name] || "").trim() : "",
+    name: getContactName(row, mapping),
     phone_number: mapping.phone_number
       ? (row[mapping.phone_number] || "").trim()
       : "",
-    registrationDate: mapping.registrationDate
-      ? (row[mapping.registrationDate] || "").trim()
-      : "",
-    attendanceDate: mapping.attendanceDate
-      ? (row[mapping.attendanceDate] || "").trim()
-      : "",
+    registrationDate: readDate(mapping.registrationDate),
+    attendanceDate: readDate(mapping.attendanceDate),
     ticketType: mapping.ticketType
       ? (row[mapping.ticketType] || "").trim()
       : "",
     status: mapping.status ? (row[mapping.status] || "").trim() : "",
+    approvalStatus: mapping.approval_status ? (row[mapping.approval_status] || "").trim() : "",
     hasJoinedEvent,
+    company: mapping.company ? (row[mapping.company] || "").trim() : "",
+    companyId: mapping.companyId ? (row[mapping.companyId] || "").trim() : "",
+    externalId: mapping.externalId ? (row[mapping.externalId] || "").trim() : "",
+    eventName: mapping.eventName ? (row[mapping.eventName] || "").trim() : "",
+    eventDate: mapping.eventDate ? (row[mapping.eventDate] || "").trim() : "",
+    presenter: mapping.presenter ? (row[mapping.presenter] || "").trim() : "",
+    registrationMetadata: extractMetadata(row, mapping, "registration", onMetadataTruncated),
+    attendanceMetadata: extractMetadata(row, mapping, "attendance", onMetadataTruncated),
+    customAttributes: extractCustomAttributes(row, mapping, timezone, onInvalidAttribute),
+    attendanceSessions,
   };
 }
 
 /**
- * Process attendees to determine which events to publish
+ * Event settings for one attendee: mapped event name, date and presenter
+ * columns override the run-level settings
  */
-function processAttendees(
-  attendees: LumaAttendee[]
-): ProcessedAttendee[] {
-  return attendees.map((attendee) => {
-    const hasRegistration = !!(
-      attendee.registrationDate ||
-      attendee.status?.toLowerCase().includes("registered") ||
-      attendee.status?.toLowerCase().includes("registration")
-    );
+function resolveAttendeeEventSettings(
+  attendee: LumaAttendee,
+  eventSettings?: EventSettings
+): EventSettings | undefined {
+  if (!attendee.eventName && !attendee.eventDate && !attendee.presenter) {
+    return eventSettings;
+  }
 
-    const hasAttendance = !!(
-      attendee.hasJoinedEvent === true ||
-      attendee.attendanceDate ||
-      attendee.status?.toLowerCase().includes("attended") ||
-      attendee.status?.toLowerCase().includes("checked") ||
-      attendee.status?.toLowerCase().includes("present")
-    );
+  const attendeeEventSettings: EventSettings = {
+    ...eventSettings,
+    eventName: attendee.eventName || eventSettings?.eventName,
+    presenter: attendee.presenter || eventSettings?.presenter,
+  };
+  if (attendee.eventDate) {
+    // Keep values that don't parse as they are, for the metadata
+    const { eventDate, eventTime } = toEventDateTime(attendee.eventDate);
+    attendeeEventSettings.eventDate = eventDate || attendee.eventDate;
+    attendeeEventSettings.eventTime = eventTime;
+  }
+  return attendeeEventSettings;
+}
 
-    return {
-      ...attendee,
+/**
+ * Process an attendee to determine which events to publish
+ */
+function processAttendee(
+  attendee: LumaAttendee,
+  eventSettings?: EventSettings
+): ProcessedAttendee {
+  const hasRegistration = !!(
+    attendee.registrationDate ||
+    attendee.status?.toLowerCase().includes("registered") ||
+    attendee.status?.toLowerCase().includes("registration")
+  );
+
+  // With durations mapped, only time actually spent in the event counts
+  const hasAttendance =
+    attendee.attendanceMinutes !== undefined
+      ? meetsAttendanceThreshold(attendee.attendanceMinutes, eventSettings)
+      : !!(
+          attendee.hasJoinedEvent === true ||
+          attendee.attendanceDate ||
+          attendee.status?.toLowerCase().includes("attended") ||
+          attendee.status?.toLowerCase().includes("checked") ||
+          attendee.status?.toLowerCase().includes("present")
+        );
+
+  return {
+    ...attendee,
+    hasRegistration,
+    hasAttendance,
+    lifecycleEvents: getLifecycleEvents(
+      attendee,
       hasRegistration,
       hasAttendance,
-    };
-  });
+      resolveAttendeeEventSettings(attendee, eventSettings)
+    ),
+  };
 }
 
 /**
- * Convert processed attendees to Intercom events
+ * Convert a processed attendee to Intercom events
  */
 function createIntercomEvents(
-  attendees: ProcessedAttendee[],
-  eventSettings?: EventSettings
+  attendee: ProcessedAttendee,
+  eventSettings?: EventSettings,
+  contactRole?: ContactRole
 ): IntercomEvent[] {
   const events: IntercomEvent[] = [];
+  const eventNames = resolveEventNames(eventSettings);
+  const now = Math.floor(Date.now() / 1000);
+
+  // Event columns on the row override the run-level settings
+  const attendeeEventSettings = resolveAttendeeEventSettings(attendee, eventSettings);
+  const tagNames = resolveTagNames(attendeeEventSettings);
+  const eventStartTime = getEventStartTime(attendeeEventSettings);
+  const eventStartTimestamp =
+    eventStartTime !== undefined ? Math.floor(eventStartTime / 1000) : undefined;
+
+  // Parse dates if available; dates that don't parse were left out earlier,
+  // and yes/no values fall back like a missing date
+  const timezone = attendeeEventSettings?.timezone;
+  let registrationTimestamp = now;
+  let attendanceTimestamp = now;
+
+  const registrationTime = parseDateTime(attendee.registrationDate || "", timezone);
+  if (registrationTime !== undefined) {
+    registrationTimestamp = Math.floor(registrationTime / 1000);
+  }
 
-  for (const attendee of attendees) {
-    const now = Math.floor(Date.now() / 1000);
-
-    // Parse dates if available
-    let registrationTimestamp = now;
-    let attendanceTimestamp = now;
-
-    if (attendee.registrationDate) {
-      const parsedDate = new Date(attendee.registrationDate);
-      if (!isNaN(parsedDate.getTime())) {
-        registrationTimestamp = Math.floor(parsedDate.getTime() / 1000);
-      }
-    }
+  // Fall back to when the attendee first joined
+  const attendanceTime =
+    parseDateTime(attendee.attendanceDate || "", timezone) ??
+    getFirstJoinTime(attendee.attendanceSessions || []);
+  if (attendanceTime !== undefined) {
+    attendanceTimestamp = Math.floor(attendanceTime / 1000);
+  }
 
-    if (attendee.attendanceDate) {
-      const parsedDate = new Date(attendee.attendanceDate);
-      if (!isNaN(parsedDate.getTime())) {
-        attendanceTimestamp = Math.floor(parsedDate.getTime() / 1000);
-      }
-    }
+  // Get event name and date from the row or event settings
+  const eventName = attendeeEventSettings?.eventName || undefined;
 
-    // Get event name and date from event settings (event-level only)
-    const eventName = eventSettings?.eventName || undefined;
+  // Combine event date and time if both provided
+  let eventDate = attendeeEventSettings?.eventDate || undefined;
+  if (attendeeEventSettings?.eventDate && attendeeEventSettings?.eventTime) {
+    eventDate = `${attendeeEventSettings.eventDate} ${attendeeEventSettings.eventTime}`;
+  }
 
-    // Combine event date and time if both provided
-    let eventDate = eventSettings?.eventDate || undefined;
-    if (eventSettings?.eventDate && eventSettings?.eventTime) {
-      eventDate = `${eventSettings.eventDate} ${eventSettings.eventTime}`;
-    } else if (eventSettings?.eventDate) {
-      eventDate = eventSettings.eventDate;
-    }
+  // Get presenter from the row or event settings
+  const presenter = attendeeEventSettings?.presenter || undefined;
+
+  // Create registration event
+  if (attendee.hasRegistration) {
+    events.push({
+      event_name: eventNames.registration,
+      created_at: registrationTimestamp,
+      email: attendee.email,
+      name: attendee.name,
+      phone_number: attendee.phone_number,
+      external_id: attendee.externalId,
+      role: contactRole,
+      custom_attributes: attendee.customAttributes,
+      company_name: attendee.company,
+      company_id: attendee.companyId,
+      tag_name: tagNames?.registration,
+      metadata: {
+        event_name: eventName,
+        event_date: eventDate,
+        ticket_type: attendee.ticketType || undefined,
+        presenter: presenter,
+        ...attendee.registrationMetadata,
+      },
+    });
+  }
 
-    // Get presenter from event settings
-    const presenter = eventSettings?.presenter || undefined;
-
-    // Create registration event
-    if (attendee.hasRegistration) {
-      events.push({
-        event_name: "registered-for-event",
-        created_at: registrationTimestamp,
-        email: attendee.email,
-        name: attendee.name,
-        phone_number: attendee.phone_number,
-        metadata: {
-          event_name: eventName,
-          event_date: eventDate,
-          ticket_type: attendee.ticketType || undefined,
-          presenter: presenter,
-        },
-      });
-    }
+  // Create attendance event
+  if (attendee.hasAttendance) {
+    events.push({
+      event_name: eventNames.attendance,
+      created_at: attendanceTimestamp,
+      email: attendee.email,
+      name: attendee.name,
+      phone_number: attendee.phone_number,
+      external_id: attendee.externalId,
+      role: contactRole,
+      custom_attributes: attendee.customAttributes,
+      company_name: attendee.company,
+      company_id: attendee.companyId,
+      tag_name: tagNames?.attendance,
+      metadata: {
+        event_name: eventName,
+        event_date: eventDate,
+        ticket_type: attendee.ticketType || undefined,
+        presenter: presenter,
+        [ATTENDANCE_MINUTES_METADATA_KEY]:
+          attendee.attendanceMinutes !== undefined
+            ? String(attendee.attendanceMinutes)
+            : undefined,
+        ...attendee.attendanceMetadata,
+      },
+    });
+  }
 
-    // Create attendance event
-    if (attendee.hasAttendance) {
-      events.push({
-        event_name: "attended-event",
-        created_at: attendanceTimestamp,
-        email: attendee.email,
-        name: attendee.name,
-        phone_number: attendee.phone_number,
-        metadata: {
-          event_name: eventName,
-          event_date: eventDate,
-          ticket_type: attendee.ticketType || undefined,
-          presenter: presenter,
-        },
-      });
-    }
+  // No-shows are dated at the event; status changes when they were imported
+  for (const kind of attendee.lifecycleEvents) {
+    events.push({
+      event_name: LIFECYCLE_EVENT_NAMES[kind],
+      created_at: kind === "noShow" && eventStartTimestamp !== undefined ? eventStartTimestamp : now,
+      email: attendee.email,
+      name: attendee.name,
+      phone_number: attendee.phone_number,
+      external_id: attendee.externalId,
+      role: contactRole,
+      custom_attributes: attendee.customAttributes,
+      company_name: attendee.company,
+      company_id: attendee.companyId,
+      metadata: {
+        event_name: eventName,
+        event_date: eventDate,
+        ticket_type: attendee.ticketType || undefined,
+        presenter: presenter,
+      },
+    });
   }
 
   return events;
@@ -185,16 +343,279 @@ function replaceEmailDomain(email: string): string {
   return email.substring(0, atIndex + 1) + "example.com";
 }
 
+/**
+ * A file whose header has been read and checked against the mapping
+ */
+interface OpenedFile {
+  file: File;
+  head: SourceHead;
+  eventSettings?: EventSettings;
+}
+
+/**
+ * What reading the rows turns up besides events, reported as it is found
+ */
+interface ImportReport {
+  onRow: () => void;
+  onAttendee: () => void;
+  onError: (message: string) => void;
+  onSkip: (skippedRow: SkippedRow) => void;
+}
+
+/**
+ * Read a CSV file's header with the source adapter the preview used and
+ * check that every mapped column is in it
+ */
+async function openFile(
+  csvFile: File,
+  options: {
+    mapping: ColumnMapping;
+    source?: SourceId;
+    batch: boolean;
+  }
+): Promise<{ head: SourceHead } | { error: string }> {
+  const { mapping, batch } = options;
+  const head = await readSourceHead(csvFile, csvFile.name, options.source);
+
+  // Verify mapped columns exist in CSV
+  const csvColumns = head.columns;
+  const requiredColumns = [mapping.email];
+  const optionalColumns = [
+    mapping.name,
+    mapping.firstName,
+    mapping.lastName,
+    mapping.preferredName,
+    mapping.phone_number,
+    mapping.registrationDate,
+    mapping.attendanceDate,
+    mapping.ticketType,
+    mapping.status,
+    mapping.hasJoinedEvent,
+    mapping.approval_status,
+    mapping.company,
+    mapping.companyId,
+    mapping.externalId,
+    mapping.eventName,
+    mapping.eventDate,
+    mapping.presenter,
+    mapping.joinTime,
+    mapping.leaveTime,
+    mapping.duration,
+    ...(mapping.metadataColumns || []).map((metadataColumn) => metadataColumn.column),
+    ...(mapping.customAttributes || []).map((customAttribute) => customAttribute.column),
+  ].filter((col): col is string => !!col);
+
+  const missingColumns = [
+    ...requiredColumns.filter((col) => !csvColumns.includes(col)),
+    ...optionalColumns.filter((col) => !csvColumns.includes(col)),
+  ];
+
+  if (missingColumns.length > 0) {
+    return {
+      error: `Mapped columns not found in ${batch ? csvFile.name : "CSV"}: ${missingColumns.join(", ")}`,
+    };
+  }
+
+  return { head };
+}
+
+/**
+ * Check every file's rows with the preview's file check, before a job is
+ * allowed to publish them. Returns why publishing is blocked, if it is.
+ */
+async function findBlockingErrors(
+  files: OpenedFile[],
+  mapping: ColumnMapping,
+  batch: boolean
+): Promise<string | undefined> {
+  const validator = createRowValidator(mapping, batch);
+  for (const { file, head } of files) {
+    for await (const { row, rowNumber } of readSourceRows(file, head)) {
+      validator.check(row, rowNumber, file.name);
+    }
+  }
+
+  const report = validator.finish();
+  if (report.errorCount === 0) {
+    return undefined;
+  }
+  const counts = report.issues
+    .filter((issue) => issue.severity === "error")
+    .map((issue) => `${VALIDATION_ISSUE_LABELS[issue.kind]}: ${issue.count}`);
+  return `${report.errorCount} ${report.errorCount === 1 ? "row has" : "rows have"} errors (${counts.join(", ")}). Fix the file or turn off blocking to publish anyway`;
+}
+
+/**
+ * Stream each file's rows into attendees and yield an attendee's events as
+ * soon as no later row will be merged into it. In a batch, row messages
+ * name the file.
+ */
+async function* importEvents(
+  files: OpenedFile[],
+  options: {
+    mapping: ColumnMapping;
+    testMode: boolean;
+    batch: boolean;
+  },
+  report: ImportReport
+): AsyncGenerator<IntercomEvent[]> {
+  const { mapping, testMode, batch } = options;
+  const hasDurations = hasAttendanceDurationColumns(mapping);
+
+  for (const { file: csvFile, head, eventSettings } of files) {
+    const filename = csvFile.name;
+    const file = batch ? filename : undefined;
+    const rowLabel = (rowNumber: number) => (batch ? `${filename} row ${rowNumber}` : `Row ${rowNumber}`);
+    // Combine rows for the same person; webinar reports have a row per join
+    const merger = createRowMerger(mapping.duplicateRowRule);
+
+    const toEvents = ({ attendee, row }: { attendee: LumaAttendee; row: number }) => {
+      report.onAttendee();
+      if (hasDurations) {
+        attendee.attendanceMinutes = getAttendanceMinutes(attendee.attendanceSessions || []);
+      }
+      // Replace email domain with example.com in test mode
+      if (testMode) {
+        attendee.email = replaceEmailDomain(attendee.email);
+      }
+
+      const processedAttendee = processAttendee(attendee, eventSettings);
+      if (
+        !processedAttendee.hasRegistration &&
+        !processedAttendee.hasAttendance &&
+        processedAttendee.lifecycleEvents.length === 0
+      ) {
+        report.onSkip({
+          file,
+          row,
+          email: attendee.email,
+          reason: attendee.attendanceMinutes
+            ? `Attended ${attendee.attendanceMinutes} minutes, below the attendance threshold`
+            : "No registration or attendance data",
+        });
+        return [];
+      }
+
+      return createIntercomEvents(
+        processedAttendee,
+        eventSettings,
+        mapping.contactRole
+      ).map((event) => ({
+        ...event,
+        source_file: filename,
+        keep_existing_name: mapping.keepExistingNames || undefined,
+      }));
+    };
+
+    for await (const { row, rowNumber } of readSourceRows(csvFile, head)) {
+      report.onRow();
+
+      // Exclude rows where approval_status="invited"
+      if (mapping.approval_status) {
+        const approvalStatus = (row[mapping.approval_status] || "").trim().toLowerCase();
+        if (approvalStatus === "invited") {
+          report.onSkip({ file, row: rowNumber, reason: "Approval status is invited" });
+          continue; // Skip invited attendees
+        }
+      }
+
+      // Dates that don't parse are left out rather than stamped with the import time
+      const unparseableDates = findUnparseableDates(row, mapping);
+      const datedRow =
+        unparseableDates.length > 0
+          ? { ...row, ...Object.fromEntries(unparseableDates.map(({ column }) => [column, ""])) }
+          : row;
+
+      const truncatedKeys = new Set<string>();
+      const attendee = parseAttendee(
+        datedRow,
+        mapping,
+        eventSettings?.timezone,
+        (key) => truncatedKeys.add(key),
+        (attribute, value, type) => {
+          report.onError(
+            `${rowLabel(rowNumber)}: Could not convert "${value}" to ${type} for attribute "${attribute}"`
+          );
+        }
+      );
+
+      if (!attendee) {
+        report.onError(
+          `${rowLabel(rowNumber)}: Missing or invalid email address`
+        );
+        report.onSkip({ file, row: rowNumber, reason: "Missing or invalid email address" });
+        continue;
+      }
+
+      // The row's other events are still published
+      for (const { description } of unparseableDates) {
+        report.onError(`${rowLabel(rowNumber)}: Could not parse ${description}, left it out`);
+      }
+
+      // Flagged addresses are still published, as written
+      for (const flag of checkEmail(attendee.email, mapping.emailChecks)) {
+        report.onError(`${rowLabel(rowNumber)}: ${flag}`);
+      }
+
+      // Numbers that don't parse are left off the contact rather than failing its update
+      if (attendee.phone_number) {
+        const phone = normalizePhone(attendee.phone_number, mapping.defaultPhoneCountry);
+        if (!phone) {
+          report.onError(
+            `${rowLabel(rowNumber)}: Could not read phone number "${attendee.phone_number}", left off the contact`
+          );
+        }
+        attendee.phone_number = phone || "";
+      }
+
+      for (const key of truncatedKeys) {
+        report.onError(
+          `${rowLabel(rowNumber)}: Metadata "${key}" truncated to ${MAX_METADATA_VALUE_LENGTH} characters`
+        );
+      }
+
+      const { into, released } = merger.add(attendee, rowNumber);
+      if (into !== undefined && !hasDurations) {
+        report.onError(`${rowLabel(rowNumber)}: Same person as row ${into}, merged into one attendee`);
+      }
+      for (const pending of released) {
+        const events = toEvents(pending);
+        if (events.length > 0) {
+          yield events;
+        }
+      }
+    }
+
+    for (const pending of merger.flush()) {
+      const events = toEvents(pending);
+      if (events.length > 0) {
+        yield events;
+      }
+    }
+  }
+}
+
 export async function POST(request: NextRequest) {
+  let upload: SpooledUpload | undefined;
+  // Set once a job owns the spooled files and removes them itself
+  let publishing = false;
   try {
-    const formData = await request.formData();
-    const file = formData.get("file") as File | null;
+    upload = await spoolUpload(request);
+    const { formData } = upload;
+    // Several files can be imported together as one job
+    const files = formData
+      .getAll("file")
+      .filter((entry): entry is File => entry instanceof File);
+    const batch = files.length > 1;
     const mappingJson = formData.get("mapping") as string | null;
     const eventSettingsJson = formData.get("eventSettings") as string | null;
     const testModeStr = formData.get("testMode") as string | null;
     const testMode = testModeStr === "true";
+    const dryRunStr = formData.get("dryRun") as string | null;
+    const dryRun = dryRunStr === "true";
+    const blockOnValidationErrors = formData.get("blockOnValidationErrors") === "true";
 
-    if (!file) {
+    if (files.length === 0) {
       return new Response(
         JSON.stringify({ type: "error", error: "No file uploaded" }),
         {
@@ -205,9 +626,13 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file type
-    if (!file.name.endsWith(".csv")) {
+    const nonCsvFile = files.find((file) => !file.name.endsWith(".csv"));
+    if (nonCsvFile) {
       return new Response(
-        JSON.stringify({ type: "error", error: "File must be a CSV file" }),
+        JSON.stringify({
+          type: "error",
+          error: batch ? `${nonCsvFile.name}: File must be a CSV file` : "File must be a CSV file",
+        }),
         {
           status: 400,
           headers: { "Content-Type": "application/json" },
@@ -229,6 +654,15 @@ export async function POST(request: NextRequest) {
             }
           );
         }
+        if (mapping.contactRole && !["user", "lead"].includes(mapping.contactRole)) {
+          return new Response(
+            JSON.stringify({ type: "error", error: 'Contact role must be "user" or "lead"' }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
       } catch {
         return new Response(
           JSON.stringify({ type: "error", error: "Invalid column mapping format" }),
@@ -258,45 +692,35 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Read file content
-    const text = await file.text();
-
-    // Parse CSV
-    const parseResult = Papa.parse<Record<string, string>>(text, {
-      header: true,
-      skipEmptyLines: true,
-      transformHeader: (header) => header.trim(),
-    });
-
-    if (parseResult.errors.length > 0) {
-      console.warn("CSV parsing errors:", parseResult.errors);
+    // Per-file event settings from a batch preview, in file order (optional)
+    let fileEventSettings: Array<EventSettings | null> = [];
+    const fileEventSettingsJson = formData.get("fileEventSettings") as string | null;
+    if (fileEventSettingsJson) {
+      try {
+        const parsed = JSON.parse(fileEventSettingsJson);
+        if (Array.isArray(parsed)) {
+          fileEventSettings = parsed;
+        }
+      } catch {
+        console.warn("Failed to parse per-file event settings, continuing without them");
+      }
     }
 
-    // Verify mapped columns exist in CSV
-    const csvColumns = parseResult.meta.fields || [];
-    const requiredColumns = [mapping.email];
-    const optionalColumns = [
-      mapping.name,
-      mapping.phone_number,
-      mapping.registrationDate,
-      mapping.attendanceDate,
-      mapping.ticketType,
-      mapping.status,
-      mapping.hasJoinedEvent,
-      mapping.approval_status,
-    ].filter((col): col is string => !!col);
-
-    const missingColumns = [
-      ...requiredColumns.filter((col) => !csvColumns.includes(col)),
-      ...optionalColumns.filter((col) => !csvColumns.includes(col)),
-    ];
+    // Each file's settings override the shared ones
+    const settingsByFile = files.map((_, index) =>
+      fileEventSettings[index] ? { ...eventSettings, ...fileEventSettings[index] } : eventSettings
+    );
 
-    if (missingColumns.length > 0) {
+    // Validate custom metadata columns and contact attributes
+    const metadataErrors = [
+      ...validateMetadataMappings(mapping),
+      ...validateCustomAttributeMappings(mapping),
+      ...validateEmailRules(mapping),
+      ...validatePhoneCountry(mapping),
+    ];
+    if (metadataErrors.length > 0) {
       return new Response(
-        JSON.stringify({
-          type: "error",
-          error: `Mapped columns not found in CSV: ${missingColumns.join(", ")}`,
-        }),
+        JSON.stringify({ type: "error", error: metadataErrors.join("; ") }),
         {
           status: 400,
           headers: { "Content-Type": "application/json" },
@@ -304,45 +728,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Extract and validate attendees
-    const attendees: LumaAttendee[] = [];
-    const errors: string[] = [];
-
-    for (let i = 0; i < parseResult.data.length; i++) {
-      const row = parseResult.data[i];
-
-      // Exclude rows where approval_status="invited"
-      if (mapping.approval_status) {
-        const approvalStatus = (row[mapping.approval_status] || "").trim().toLowerCase();
-        if (approvalStatus === "invited") {
-          continue; // Skip invited attendees
-        }
+    // Validate configured Intercom event names and tag templates
+    const eventNameErrors = new Set<string>();
+    settingsByFile.forEach((fileSettings, index) => {
+      for (const message of [
+        ...validateEventNames(fileSettings),
+        ...validateTagTemplates(fileSettings, mapping),
+        ...validateAttendanceSettings(fileSettings),
+        ...validateLifecycleEvents(fileSettings, mapping),
+        ...validateTimezone(fileSettings),
+      ]) {
+        eventNameErrors.add(batch ? `${files[index].name}: ${message}` : message);
       }
-
-      const attendee = parseAttendee(row, mapping);
-
-      if (!attendee) {
-        errors.push(
-          `Row ${i + 2}: Missing or invalid email address`
-        );
-        continue;
-      }
-
-      // Replace email domain with example.com in test mode
-      if (testMode) {
-        attendee.email = replaceEmailDomain(attendee.email);
-      }
-
-      attendees.push(attendee);
-    }
-
-    if (attendees.length === 0) {
+    });
+    if (eventNameErrors.size > 0) {
       return new Response(
-        JSON.stringify({
-          type: "error",
-          error: "No valid attendees found in CSV",
-          errors,
-        }),
+        JSON.stringify({ type: "error", error: Array.from(eventNameErrors).join("; ") }),
         {
           status: 400,
           headers: { "Content-Type": "application/json" },
@@ -350,93 +751,127 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Process attendees and create events
-    const processedAttendees = processAttendees(attendees);
-    const events = createIntercomEvents(processedAttendees, eventSettings);
+    // Check every file's columns before anything is published; a source given by the preview applies to all
+    const sourceStr = formData.get("source");
+    const source = isSourceId(sourceStr) ? sourceStr : undefined;
+    const openedFiles: OpenedFile[] = [];
+    for (const [index, file] of files.entries()) {
+      const opened = await openFile(file, { mapping, source, batch });
 
-    if (events.length === 0) {
-      return NextResponse.json(
-        {
-          error: "No events to publish. Ensure CSV contains registration or attendance data.",
-          processed: attendees.length,
+      if ("error" in opened) {
+        return new Response(
+          JSON.stringify({
+            type: "error",
+            error: opened.error,
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      openedFiles.push({ file, head: opened.head, eventSettings: settingsByFile[index] });
+    }
+    const importOptions = { mapping, testMode, batch };
+
+    // Dry run: return the exact payloads without publishing anything
+    if (dryRun) {
+      let totalRows = 0;
+      let totalProcessed = 0;
+      let totalEvents = 0;
+      const eventCounts: Record<string, number> = {};
+      const payloads: DryRunEvent[] = [];
+      const errors: string[] = [];
+      const skipped: SkippedRow[] = [];
+      let errorCount = 0;
+      let skippedCount = 0;
+
+      const dryRunEvents = importEvents(openedFiles, importOptions, {
+        onRow: () => totalRows++,
+        onAttendee: () => totalProcessed++,
+        onError: (message) => {
+          errorCount++;
+          if (errors.length < MAX_DRY_RUN_ROWS) {
+            errors.push(message);
+          }
         },
-        { status: 400 }
+        onSkip: (skippedRow) => {
+          skippedCount++;
+          if (skipped.length < MAX_DRY_RUN_ROWS) {
+            skipped.push(skippedRow);
+          }
+        },
+      });
+      for await (const events of dryRunEvents) {
+        for (const event of events) {
+          totalEvents++;
+          eventCounts[event.event_name] = (eventCounts[event.event_name] || 0) + 1;
+          if (payloads.length < MAX_DRY_RUN_PAYLOADS) {
+            payloads.push({
+              contact: buildContactPayload(event),
+              event: buildEventPayload(event),
+              company: buildCompanyPayload(event),
+              tag: event.tag_name,
+            });
+          }
+        }
+      }
+
+      // Skipped rows are found out of order when merged attendees are released
+      const fileOrder = files.map((file) => file.name);
+      skipped.sort(
+        (a, b) =>
+          fileOrder.indexOf(a.file || "") - fileOrder.indexOf(b.file || "") || a.row - b.row
       );
-    }
 
-    // Create a readable stream for Server-Sent Events
-    const stream = new ReadableStream({
-      async start(controller) {
-        const encoder = new TextEncoder();
-
-        // Send initial message
-        const sendMessage = (data: object) => {
-          const message = `data: ${JSON.stringify(data)}\n\n`;
-          controller.enqueue(encoder.encode(message));
-        };
-
-        // Send start message
-        sendMessage({
-          type: "start",
-          totalEvents: events.length,
-          totalProcessed: attendees.length,
-        });
+      return NextResponse.json<DryRunResponse>({
+        success: true,
+        dryRun: true,
+        totalRows,
+        totalProcessed,
+        totalEvents,
+        eventCounts,
+        payloads,
+        skipped,
+        skippedCount,
+        errors: errors.length > 0 ? errors : undefined,
+        errorCount,
+      });
+    }
 
-        const results: ProcessingResult[] = [];
-        let successful = 0;
-        let failed = 0;
-
-        try {
-          // Publish events with progress callback
-          await publishEventsWithProgress(
-            events,
-            (result, index, total) => {
-              results.push(result);
-              if (result.success) {
-                successful++;
-              } else {
-                failed++;
-              }
-
-              // Send progress update
-              sendMessage({
-                type: "progress",
-                result,
-                index,
-                total,
-                successful,
-                failed,
-              });
-            },
-            testMode
-          );
+    // Nothing is published from a file that fails the file check while blocking is on
+    if (blockOnValidationErrors) {
+      const blockingErrors = await findBlockingErrors(openedFiles, mapping, batch);
+      if (blockingErrors) {
+        return new Response(
+          JSON.stringify({ type: "error", error: blockingErrors }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
 
-          // Send completion message
-          sendMessage({
-            type: "complete",
-            totalProcessed: attendees.length,
-            successful,
-            failed,
-            results,
-            errors: errors.length > 0 ? errors : undefined,
-          });
-        } catch (error) {
-          sendMessage({
-            type: "error",
-            error: error instanceof Error ? error.message : "Unknown error occurred",
-          });
-        } finally {
-          controller.close();
-        }
-      },
+    // Create a job so the run survives the browser disconnecting; it reads the rows as it publishes
+    const job = await createJob({
+      testMode,
+      mapping,
+      eventSettings,
+      fileEventSettings: batch
+        ? files.map((file, index) => ({ filename: file.name, eventSettings: settingsByFile[index] || {} }))
+        : undefined,
     });
+    const { cleanup } = upload;
+    publishing = true;
+    void runJob(job.id, (report) =>
+      importEvents(openedFiles, importOptions, { ...report, onRow: () => {}, onSkip: () => {} })
+    ).finally(cleanup);
+
+    const stream = await createJobEventStream(job.id);
 
     return new Response(stream, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
+      headers: SSE_HEADERS,
     });
   } catch (error) {
     console.error("Error processing upload:", error);
@@ -457,6 +892,10 @@ export async function POST(request: NextRequest) {
         headers: { "Content-Type": "application/json" },
       }
     );
+  } finally {
+    if (upload && !publishing) {
+      await upload.cleanup();
+    }
   }
 }
 
@@ -0,0 +1,114 @@
+"use client";
+
+import type { AttendanceThresholdUnit, EventSettings } from "@/lib/types";
+import { resolveMinAttendanceMinutes } from "@/lib/attendance";
+
+interface AttendanceThresholdEditorProps {
+  eventSettings: EventSettings;
+  errors: string[];
+  onChange: (eventSettings: EventSettings) => void;
+}
+
+const inputClassName =
+  "w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 placeholder:text-zinc-400 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:placeholder:text-zinc-500 dark:focus:border-white dark:focus:ring-white";
+
+/**
+ * Parse a number input, treating an empty field as unset
+ */
+function parseNumberInput(value: string): number | undefined {
+  return value === "" ? undefined : Number(value);
+}
+
+export default function AttendanceThresholdEditor({
+  eventSettings,
+  errors,
+  onChange,
+}: AttendanceThresholdEditorProps) {
+  const unit = eventSettings.minAttendanceUnit || "minutes";
+  const minMinutes = errors.length === 0 ? resolveMinAttendanceMinutes(eventSettings) : null;
+
+  return (
+    <div className="mt-8 rounded-lg border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+      <h3 className="text-lg font-semibold text-black dark:text-zinc-50">
+        Attendance Threshold
+      </h3>
+      <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+        Join/leave times or durations are mapped, so attendance is counted from
+        the time each person spent in the event. Rows for the same email are
+        combined first.
+      </p>
+
+      <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div>
+          <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+            Minimum Attendance
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={eventSettings.minAttendance ?? ""}
+            onChange={(e) =>
+              onChange({ ...eventSettings, minAttendance: parseNumberInput(e.target.value) })
+            }
+            placeholder="0"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+            Unit
+          </label>
+          <select
+            value={unit}
+            onChange={(e) =>
+              onChange({
+                ...eventSettings,
+                minAttendanceUnit: e.target.value as AttendanceThresholdUnit,
+              })
+            }
+            className={inputClassName}
+          >
+            <option value="minutes">Minutes</option>
+            <option value="percent">% of event</option>
+          </select>
+        </div>
+        {unit === "percent" && (
+          <div>
+            <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+              Event Duration (minutes)
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={eventSettings.eventDurationMinutes ?? ""}
+              onChange={(e) =>
+                onChange({
+                  ...eventSettings,
+                  eventDurationMinutes: parseNumberInput(e.target.value),
+                })
+              }
+              placeholder="e.g., 60"
+              className={inputClassName}
+            />
+          </div>
+        )}
+      </div>
+
+      {minMinutes !== null && (
+        <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+          {minMinutes > 0
+            ? `Counts as attended after ${Math.round(minMinutes * 10) / 10} minutes.`
+            : "Any time in the event counts as attended."}
+        </p>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-red-600 dark:text-red-400">
+          {errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
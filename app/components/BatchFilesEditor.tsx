@@ -0,0 +1,110 @@
+"use client";
+
+import type { EventSettings, PreviewFile } from "@/lib/types";
+import { SOURCE_LABELS } from "@/lib/sources";
+
+interface BatchFilesEditorProps {
+  files: PreviewFile[];
+  fileEventSettings: EventSettings[];
+  onChange: (fileEventSettings: EventSettings[]) => void;
+}
+
+const inputClassName =
+  "w-full rounded-lg border border-zinc-300 bg-white px-2 py-1 text-sm text-zinc-700 placeholder:text-zinc-400 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:placeholder:text-zinc-500 dark:focus:border-white dark:focus:ring-white";
+
+type FileField = "eventName" | "eventDate" | "eventTime" | "presenter";
+
+export default function BatchFilesEditor({
+  files,
+  fileEventSettings,
+  onChange,
+}: BatchFilesEditorProps) {
+  const update = (index: number, field: FileField, value: string) => {
+    onChange(
+      fileEventSettings.map((settings, settingsIndex) =>
+        // Empty values fall back to the shared event information
+        settingsIndex === index ? { ...settings, [field]: value || undefined } : settings
+      )
+    );
+  };
+
+  return (
+    <div className="mb-6 rounded-lg border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+      <h3 className="text-lg font-semibold text-black dark:text-zinc-50">
+        Files ({files.length})
+      </h3>
+      <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+        All files use the same column mapping and are published as one run.
+        Each file&apos;s event comes from its filename where possible; empty
+        fields use the event information below.
+      </p>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              {["File", "Event Name", "Date", "Time", "Presenter"].map((heading) => (
+                <th
+                  key={heading}
+                  className="border-b border-zinc-200 px-2 py-2 text-left font-medium text-zinc-700 dark:border-zinc-700 dark:text-zinc-300"
+                >
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {files.map((file, index) => {
+              const settings = fileEventSettings[index] || {};
+              return (
+                <tr key={`${file.filename}-${index}`}>
+                  <td className="border-b border-zinc-100 px-2 py-2 text-zinc-700 dark:border-zinc-800 dark:text-zinc-300">
+                    <div className="max-w-48 truncate" title={file.filename}>
+                      {file.filename}
+                    </div>
+                    <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                      {file.totalRows === undefined ? "Counting rows" : `${file.totalRows} rows`} ·{" "}
+                      {SOURCE_LABELS[file.source]}
+                    </div>
+                  </td>
+                  <td className="border-b border-zinc-100 px-2 py-2 dark:border-zinc-800">
+                    <input
+                      type="text"
+                      value={settings.eventName || ""}
+                      onChange={(e) => update(index, "eventName", e.target.value)}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="border-b border-zinc-100 px-2 py-2 dark:border-zinc-800">
+                    <input
+                      type="date"
+                      value={settings.eventDate || ""}
+                      onChange={(e) => update(index, "eventDate", e.target.value)}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="border-b border-zinc-100 px-2 py-2 dark:border-zinc-800">
+                    <input
+                      type="time"
+                      value={settings.eventTime || ""}
+                      onChange={(e) => update(index, "eventTime", e.target.value)}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="border-b border-zinc-100 px-2 py-2 dark:border-zinc-800">
+                    <input
+                      type="text"
+                      value={settings.presenter || ""}
+                      onChange={(e) => update(index, "presenter", e.target.value)}
+                      className={inputClassName}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import type { EventSettings } from "@/lib/types";
+import {
+  DEFAULT_ATTENDANCE_TAG_TEMPLATE,
+  DEFAULT_REGISTRATION_TAG_TEMPLATE,
+  resolveTagNames,
+} from "@/lib/tags";
+
+interface ContactTagsEditorProps {
+  eventSettings: EventSettings;
+  errors: string[];
+  onChange: (eventSettings: EventSettings) => void;
+}
+
+const inputClassName =
+  "w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 placeholder:text-zinc-400 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:placeholder:text-zinc-500 dark:focus:border-white dark:focus:ring-white";
+
+export default function ContactTagsEditor({
+  eventSettings,
+  errors,
+  onChange,
+}: ContactTagsEditorProps) {
+  const tagNames = errors.length === 0 ? resolveTagNames(eventSettings) : null;
+
+  return (
+    <div className="mt-8 rounded-lg border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="flex items-center gap-3">
+        <input
+          type="checkbox"
+          id="tag-contacts"
+          checked={!!eventSettings.tagContacts}
+          onChange={(e) => onChange({ ...eventSettings, tagContacts: e.target.checked })}
+          className="h-4 w-4 rounded border-zinc-300"
+        />
+        <label
+          htmlFor="tag-contacts"
+          className="text-lg font-semibold text-black dark:text-zinc-50"
+        >
+          Tag Contacts
+        </label>
+      </div>
+      <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+        Tag each contact in Intercom so registrants and attendees can be
+        targeted in campaigns. Templates can use {"{eventName}"},{" "}
+        {"{eventDate}"} and {"{presenter}"}.
+      </p>
+
+      {eventSettings.tagContacts && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                Registration Tag
+              </label>
+              <input
+                type="text"
+                value={eventSettings.registrationTagTemplate || ""}
+                onChange={(e) =>
+                  onChange({ ...eventSettings, registrationTagTemplate: e.target.value })
+                }
+                placeholder={DEFAULT_REGISTRATION_TAG_TEMPLATE}
+                className={inputClassName}
+              />
+              {tagNames && (
+                <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                  Tag: {tagNames.registration}
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                Attendance Tag
+              </label>
+              <input
+                type="text"
+                value={eventSettings.attendanceTagTemplate || ""}
+                onChange={(e) =>
+                  onChange({ ...eventSettings, attendanceTagTemplate: e.target.value })
+                }
+                placeholder={DEFAULT_ATTENDANCE_TAG_TEMPLATE}
+                className={inputClassName}
+              />
+              {tagNames && (
+                <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                  Tag: {tagNames.attendance}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="list-disc space-y-1 pl-5 text-sm text-red-600 dark:text-red-400">
+              {errors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
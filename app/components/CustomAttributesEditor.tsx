@@ -0,0 +1,123 @@
+"use client";
+
+import type { CustomAttributeMapping } from "@/lib/types";
+import { suggestMetadataKey } from "@/lib/metadata";
+
+interface CustomAttributesEditorProps {
+  columns: string[];
+  value: CustomAttributeMapping[];
+  createMissing: boolean;
+  errors: string[];
+  onChange: (value: CustomAttributeMapping[]) => void;
+  onCreateMissingChange: (createMissing: boolean) => void;
+}
+
+const inputClassName =
+  "w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:focus:border-white dark:focus:ring-white";
+
+export default function CustomAttributesEditor({
+  columns,
+  value,
+  createMissing,
+  errors,
+  onChange,
+  onCreateMissingChange,
+}: CustomAttributesEditorProps) {
+  const updateRow = (index: number, changes: Partial<CustomAttributeMapping>) => {
+    onChange(value.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <div className="mt-8 rounded-lg border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+      <h3 className="mb-1 text-lg font-semibold text-black dark:text-zinc-50">
+        Contact Custom Attributes
+      </h3>
+      <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
+        Store CSV columns (company, job title, plan...) on the Intercom contact
+        itself so they can be used in segments and messages.
+      </p>
+
+      {value.length > 0 && (
+        <div className="mb-4 space-y-3">
+          {value.map((row, index) => (
+            <div key={index} className="grid grid-cols-1 gap-2 sm:grid-cols-[1fr_1fr_auto_auto]">
+              <select
+                value={row.column}
+                onChange={(e) =>
+                  updateRow(index, {
+                    column: e.target.value,
+                    attribute: row.attribute || suggestMetadataKey(e.target.value),
+                  })
+                }
+                className={inputClassName}
+              >
+                <option value="">Select column...</option>
+                {columns.map((col) => (
+                  <option key={col} value={col}>
+                    {col}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={row.attribute}
+                onChange={(e) => updateRow(index, { attribute: e.target.value })}
+                placeholder="attribute_name"
+                className={`${inputClassName} font-mono`}
+              />
+              <select
+                value={row.type}
+                onChange={(e) =>
+                  updateRow(index, {
+                    type: e.target.value as CustomAttributeMapping["type"],
+                  })
+                }
+                className={inputClassName}
+              >
+                <option value="string">Text</option>
+                <option value="number">Number</option>
+                <option value="boolean">True/False</option>
+                <option value="date">Date</option>
+              </select>
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((_row, i) => i !== index))}
+                className="rounded-full border border-zinc-300 px-3 py-2 text-sm text-zinc-600 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="mb-4 list-disc space-y-1 pl-5 text-sm text-red-600 dark:text-red-400">
+          {errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      {value.length > 0 && (
+        <label className="mb-4 flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+          <input
+            type="checkbox"
+            checked={createMissing}
+            onChange={(e) => onCreateMissingChange(e.target.checked)}
+            className="h-4 w-4 rounded border-zinc-300"
+          />
+          Create missing attributes in Intercom before publishing
+        </label>
+      )}
+
+      <button
+        type="button"
+        onClick={() => onChange([...value, { column: "", attribute: "", type: "string" }])}
+        className="rounded-full border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 transition-colors hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+      >
+        Add Custom Attribute
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import type { ColumnMapping, DuplicateRowRule, EmailCheck } from "@/lib/types";
+import { DUPLICATE_ROW_RULE_LABELS, EMAIL_CHECK_LABELS } from "@/lib/emails";
+
+interface EmailRulesEditorProps {
+  mapping: ColumnMapping;
+  errors: string[];
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+export default function EmailRulesEditor({ mapping, errors, onChange }: EmailRulesEditorProps) {
+  const selected = mapping.emailChecks || [];
+
+  const toggle = (check: EmailCheck, checked: boolean) => {
+    const emailChecks = checked
+      ? [...selected, check]
+      : selected.filter((selectedCheck) => selectedCheck !== check);
+    onChange({ ...mapping, emailChecks });
+  };
+
+  return (
+    <div className="mt-8 rounded-lg border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+      <h3 className="text-lg font-semibold text-black dark:text-zinc-50">
+        Emails and Duplicates
+      </h3>
+      <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+        Emails are trimmed and lowercased, and rows with an invalid address are
+        skipped. Rows for the same email (and event) are merged into one
+        attendee.
+      </p>
+
+      <div className="mt-4 space-y-2">
+        {(Object.keys(EMAIL_CHECK_LABELS) as EmailCheck[]).map((check) => (
+          <div key={check} className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id={`email-check-${check}`}
+              checked={selected.includes(check)}
+              onChange={(e) => toggle(check, e.target.checked)}
+              className="h-4 w-4 rounded border-zinc-300"
+            />
+            <label
+              htmlFor={`email-check-${check}`}
+              className="text-sm text-zinc-700 dark:text-zinc-300"
+            >
+              {EMAIL_CHECK_LABELS[check]}
+            </label>
+          </div>
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+        Flagged rows are listed in the warnings and still published as written.
+      </p>
+
+      <div className="mt-4">
+        <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+          When rows are merged
+        </label>
+        <select
+          value={mapping.duplicateRowRule || "first"}
+          onChange={(e) =>
+            onChange({ ...mapping, duplicateRowRule: e.target.value as DuplicateRowRule })
+          }
+          className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:focus:border-white dark:focus:ring-white"
+        >
+          {(Object.keys(DUPLICATE_ROW_RULE_LABELS) as DuplicateRowRule[]).map((rule) => (
+            <option key={rule} value={rule}>
+              {DUPLICATE_ROW_RULE_LABELS[rule]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-red-600 dark:text-red-400">
+          {errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import type { EventSettings, LifecycleEventKind } from "@/lib/types";
+import { LIFECYCLE_EVENT_LABELS, LIFECYCLE_EVENT_NAMES } from "@/lib/lifecycle";
+
+interface LifecycleEventsEditorProps {
+  eventSettings: EventSettings;
+  errors: string[];
+  onChange: (eventSettings: EventSettings) => void;
+}
+
+export default function LifecycleEventsEditor({
+  eventSettings,
+  errors,
+  onChange,
+}: LifecycleEventsEditorProps) {
+  const selected = eventSettings.lifecycleEvents || [];
+
+  const toggle = (kind: LifecycleEventKind, checked: boolean) => {
+    const lifecycleEvents = checked
+      ? [...selected, kind]
+      : selected.filter((selectedKind) => selectedKind !== kind);
+    onChange({ ...eventSettings, lifecycleEvents });
+  };
+
+  return (
+    <div className="mt-8 rounded-lg border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+      <h3 className="text-lg font-semibold text-black dark:text-zinc-50">
+        Lifecycle Events
+      </h3>
+      <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+        Publish extra events derived from the approval status, status and
+        attendance columns.
+      </p>
+
+      <div className="mt-4 space-y-2">
+        {(Object.keys(LIFECYCLE_EVENT_NAMES) as LifecycleEventKind[]).map((kind) => (
+          <div key={kind} className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id={`lifecycle-${kind}`}
+              checked={selected.includes(kind)}
+              onChange={(e) => toggle(kind, e.target.checked)}
+              className="h-4 w-4 rounded border-zinc-300"
+            />
+            <label
+              htmlFor={`lifecycle-${kind}`}
+              className="text-sm text-zinc-700 dark:text-zinc-300"
+            >
+              <code className="font-mono">{LIFECYCLE_EVENT_NAMES[kind]}</code>
+              {" "}
+              <span className="text-zinc-500 dark:text-zinc-400">
+                {LIFECYCLE_EVENT_LABELS[kind]}
+              </span>
+            </label>
+          </div>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-red-600 dark:text-red-400">
+          {errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
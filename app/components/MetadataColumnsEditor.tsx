@@ -0,0 +1,106 @@
+"use client";
+
+import type { MetadataColumnMapping } from "@/lib/types";
+import { suggestMetadataKey } from "@/lib/metadata";
+
+interface MetadataColumnsEditorProps {
+  columns: string[];
+  value: MetadataColumnMapping[];
+  errors: string[];
+  onChange: (value: MetadataColumnMapping[]) => void;
+}
+
+const inputClassName =
+  "w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:focus:border-white dark:focus:ring-white";
+
+export default function MetadataColumnsEditor({
+  columns,
+  value,
+  errors,
+  onChange,
+}: MetadataColumnsEditorProps) {
+  const updateRow = (index: number, changes: Partial<MetadataColumnMapping>) => {
+    onChange(value.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <div className="mt-8 rounded-lg border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+      <h3 className="mb-1 text-lg font-semibold text-black dark:text-zinc-50">
+        Additional Event Metadata
+      </h3>
+      <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
+        Send extra CSV columns (registration answers, coupon codes, check-in
+        location...) as metadata on the registration and/or attendance event.
+      </p>
+
+      {value.length > 0 && (
+        <div className="mb-4 space-y-3">
+          {value.map((row, index) => (
+            <div key={index} className="grid grid-cols-1 gap-2 sm:grid-cols-[1fr_1fr_auto_auto]">
+              <select
+                value={row.column}
+                onChange={(e) =>
+                  updateRow(index, {
+                    column: e.target.value,
+                    key: row.key || suggestMetadataKey(e.target.value),
+                  })
+                }
+                className={inputClassName}
+              >
+                <option value="">Select column...</option>
+                {columns.map((col) => (
+                  <option key={col} value={col}>
+                    {col}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={row.key}
+                onChange={(e) => updateRow(index, { key: e.target.value })}
+                placeholder="metadata_key"
+                className={`${inputClassName} font-mono`}
+              />
+              <select
+                value={row.target}
+                onChange={(e) =>
+                  updateRow(index, {
+                    target: e.target.value as MetadataColumnMapping["target"],
+                  })
+                }
+                className={inputClassName}
+              >
+                <option value="both">Both events</option>
+                <option value="registration">Registration only</option>
+                <option value="attendance">Attendance only</option>
+              </select>
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((_row, i) => i !== index))}
+                className="rounded-full border border-zinc-300 px-3 py-2 text-sm text-zinc-600 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="mb-4 list-disc space-y-1 pl-5 text-sm text-red-600 dark:text-red-400">
+          {errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        type="button"
+        onClick={() => onChange([...value, { column: "", key: "", target: "both" }])}
+        className="rounded-full border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 transition-colors hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+      >
+        Add Metadata Column
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type {
+  ColumnMapping,
+  EventSettings,
+  MappingPreset,
+  PresetListResponse,
+  PresetMatch,
+  PresetResponse,
+} from "@/lib/types";
+
+interface PresetsPanelProps {
+  columns: string[];
+  mapping: ColumnMapping;
+  eventSettings: EventSettings;
+  selectedPresetId: string | null;
+  matchedPreset?: PresetMatch | null;
+  onApply: (preset: MappingPreset | null) => void;
+}
+
+const inputClassName =
+  "w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 placeholder:text-zinc-400 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:placeholder:text-zinc-500 dark:focus:border-white dark:focus:ring-white";
+
+const buttonClassName =
+  "rounded-full border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 transition-colors hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700";
+
+export default function PresetsPanel({
+  columns,
+  mapping,
+  eventSettings,
+  selectedPresetId,
+  matchedPreset,
+  onApply,
+}: PresetsPanelProps) {
+  const [presets, setPresets] = useState<MappingPreset[]>([]);
+  const [newPresetName, setNewPresetName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedPreset = presets.find((preset) => preset.id === selectedPresetId) || null;
+
+  useEffect(() => {
+    fetch("/api/presets")
+      .then((response) => response.json())
+      .then((data: PresetListResponse) => setPresets(data.presets || []))
+      .catch(() => setPresets([]));
+  }, []);
+
+  /**
+   * Create or update a preset from the current mapping and event settings
+   */
+  const savePreset = async (presetId: string | null, name: string) => {
+    setSaving(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch(presetId ? `/api/presets/${presetId}` : "/api/presets", {
+        method: presetId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, mapping, eventSettings, columns }),
+      });
+      const data: PresetResponse = await response.json();
+
+      if (!response.ok || !data.success || !data.preset) {
+        setError(data.error || "Failed to save preset");
+        return;
+      }
+
+      const saved = data.preset;
+      setPresets((prev) =>
+        [...prev.filter((preset) => preset.id !== saved.id), saved].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      setNewPresetName("");
+      setMessage(presetId ? `Updated preset "${saved.name}"` : `Saved preset "${saved.name}"`);
+      onApply(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save preset");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedPreset || !confirm(`Delete preset "${selectedPreset.name}"?`)) {
+      return;
+    }
+
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/presets/${selectedPreset.id}`, { method: "DELETE" });
+      const data: PresetResponse = await response.json();
+
+      if (!response.ok || !data.success) {
+        setError(data.error || "Failed to delete preset");
+        return;
+      }
+
+      setPresets((prev) => prev.filter((preset) => preset.id !== selectedPreset.id));
+      setMessage(`Deleted preset "${selectedPreset.name}"`);
+      onApply(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete preset");
+    }
+  };
+
+  return (
+    <div className="mb-6 rounded-lg border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+      <h3 className="mb-1 text-lg font-semibold text-black dark:text-zinc-50">
+        Mapping Presets
+      </h3>
+      <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
+        Save this mapping, the event and tag names, metadata and attribute
+        columns and the default presenter for the next upload of the same series.
+      </p>
+
+      {matchedPreset && matchedPreset.preset.id === selectedPresetId && (
+        <div className="mb-4 rounded-lg border border-green-200 bg-green-50 px-4 py-2 text-sm text-green-800 dark:border-green-800 dark:bg-green-900/20 dark:text-green-400">
+          Applied preset &ldquo;{matchedPreset.preset.name}&rdquo; because its columns match
+          this CSV ({Math.round(matchedPreset.score * 100)}% of headers in common).
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-[1fr_auto_auto]">
+        <select
+          value={selectedPresetId || ""}
+          onChange={(e) =>
+            onApply(presets.find((preset) => preset.id === e.target.value) || null)
+          }
+          className={inputClassName}
+        >
+          <option value="">No preset</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => selectedPreset && savePreset(selectedPreset.id, selectedPreset.name)}
+          disabled={!selectedPreset || saving || !mapping.email}
+          className={buttonClassName}
+        >
+          Update Preset
+        </button>
+        <button
+          type="button"
+          onClick={handleDelete}
+          disabled={!selectedPreset || saving}
+          className={buttonClassName}
+        >
+          Delete
+        </button>
+      </div>
+
+      <div className="mt-3 grid grid-cols-1 gap-2 sm:grid-cols-[1fr_auto]">
+        <input
+          type="text"
+          value={newPresetName}
+          onChange={(e) => setNewPresetName(e.target.value)}
+          placeholder="New preset name, e.g. Monthly Webinar"
+          className={inputClassName}
+        />
+        <button
+          type="button"
+          onClick={() => savePreset(null, newPresetName)}
+          disabled={!newPresetName.trim() || saving || !mapping.email}
+          className={buttonClassName}
+        >
+          Save as Preset
+        </button>
+      </div>
+
+      {message && (
+        <p className="mt-3 text-sm text-green-700 dark:text-green-400">{message}</p>
+      )}
+      {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import type { ValidationReport } from "@/lib/types";
+import { VALIDATION_ISSUE_LABELS } from "@/lib/validation";
+
+interface ValidationReportPanelProps {
+  report: ValidationReport | null; // Null until the first check finishes
+  pending: boolean; // The mapping changed since the report was made
+  error: string | null; // The check for the current mapping failed
+  blockOnErrors: boolean;
+  onBlockOnErrorsChange: (blockOnErrors: boolean) => void;
+}
+
+export default function ValidationReportPanel({
+  report,
+  pending,
+  error,
+  blockOnErrors,
+  onBlockOnErrorsChange,
+}: ValidationReportPanelProps) {
+  const hasErrors = !!error || (!!report && report.errorCount > 0);
+
+  return (
+    <div
+      className={`mt-8 rounded-lg border p-6 ${
+        hasErrors
+          ? "border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20"
+          : "border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900"
+      }`}
+    >
+      <h3 className="text-lg font-semibold text-black dark:text-zinc-50">
+        File Check {pending && <span className="text-sm font-normal text-zinc-500">(checking...)</span>}
+      </h3>
+      {error ? (
+        <p className="mt-1 text-sm text-red-700 dark:text-red-400">
+          Could not check the file: {error}. Change the mapping to check again
+          {blockOnErrors && ", or turn off the option below to publish without a check"}.
+        </p>
+      ) : report ? (
+        <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+          {report.totalRows} rows checked with this mapping: {report.errorCount} with errors
+          (skipped on upload), {report.warningCount} with warnings.
+        </p>
+      ) : (
+        <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+          Checking every row with this mapping...
+        </p>
+      )}
+
+      {!error && report && report.issues.length > 0 && (
+        <div className="mt-4 space-y-3">
+          {report.issues.map((issue) => (
+            <details key={issue.kind}>
+              <summary
+                className={`cursor-pointer text-sm font-medium ${
+                  issue.severity === "error"
+                    ? "text-red-700 dark:text-red-400"
+                    : "text-yellow-700 dark:text-yellow-400"
+                }`}
+              >
+                {VALIDATION_ISSUE_LABELS[issue.kind]}: {issue.count}{" "}
+                {issue.count === 1 ? "row" : "rows"}
+              </summary>
+              <ul className="mt-1 list-disc space-y-1 pl-5 text-sm text-zinc-700 dark:text-zinc-300">
+                {issue.rows.map((row, index) => (
+                  <li key={index}>
+                    {row.file ? `${row.file} row` : "Row"} {row.row}
+                    {row.value ? `: ${row.value}` : ""}
+                  </li>
+                ))}
+                {issue.count > issue.rows.length && (
+                  <li className="text-zinc-500 dark:text-zinc-400">
+                    and {issue.count - issue.rows.length} more
+                  </li>
+                )}
+              </ul>
+            </details>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 flex items-center gap-3">
+        <input
+          type="checkbox"
+          id="block-on-errors"
+          checked={blockOnErrors}
+          onChange={(e) => onBlockOnErrorsChange(e.target.checked)}
+          className="h-4 w-4 rounded border-zinc-300"
+        />
+        <label htmlFor="block-on-errors" className="text-sm text-zinc-700 dark:text-zinc-300">
+          Don&apos;t publish while the file has errors or hasn&apos;t been checked
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,103 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import type {
   UploadResponse,
   ProcessingResult,
   CSVPreview,
   ColumnMapping,
   PreviewResponse,
+  PreviewMessage,
   EventSettings,
+  DryRunResponse,
+  JobStatusResponse,
+  RetryJobResponse,
+  ContactRole,
+  MappingPreset,
+  PresetMatch,
+  SourceId,
+  PreviewFile,
+  ValidationReport,
 } from "@/lib/types";
+import {
+  DEFAULT_ATTENDANCE_EVENT_NAME,
+  DEFAULT_REGISTRATION_EVENT_NAME,
+  validateEventNames,
+} from "@/lib/eventNames";
+import { validateMetadataMappings } from "@/lib/metadata";
+import { validateCustomAttributeMappings } from "@/lib/customAttributes";
+import { validateTagTemplates } from "@/lib/tags";
+import { SOURCE_LABELS } from "@/lib/sources";
+import { hasAttendanceDurationColumns, validateAttendanceSettings } from "@/lib/attendance";
+import { validateLifecycleEvents } from "@/lib/lifecycle";
+import { DEFAULT_TIMEZONE, validateTimezone } from "@/lib/dates";
+import { validateEmailRules } from "@/lib/emails";
+import { PHONE_COUNTRIES, validatePhoneCountry } from "@/lib/phones";
+import MetadataColumnsEditor from "./components/MetadataColumnsEditor";
+import CustomAttributesEditor from "./components/CustomAttributesEditor";
+import ContactTagsEditor from "./components/ContactTagsEditor";
+import PresetsPanel from "./components/PresetsPanel";
+import AttendanceThresholdEditor from "./components/AttendanceThresholdEditor";
+import LifecycleEventsEditor from "./components/LifecycleEventsEditor";
+import BatchFilesEditor from "./components/BatchFilesEditor";
+import ValidationReportPanel from "./components/ValidationReportPanel";
+import EmailRulesEditor from "./components/EmailRulesEditor";
 
-type Step = "upload" | "mapping" | "processing" | "results";
+type Step = "upload" | "mapping" | "review" | "processing" | "results";
+
+// Column mapping fields that map a single CSV column
+type ColumnField = {
+  [K in keyof ColumnMapping]-?: string extends NonNullable<ColumnMapping[K]> ? K : never;
+}[keyof ColumnMapping];
+
+// Lets the page reattach to a running upload job after a reload
+const JOB_STORAGE_KEY = "intercom-connector:job";
+
+// Default phone country choices, by country name
+const countryNames = new Intl.DisplayNames(["en"], { type: "region" });
+const PHONE_COUNTRY_OPTIONS = PHONE_COUNTRIES.map((code) => ({
+  code,
+  name: countryNames.of(code) || code,
+})).sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Read the messages of a Server-Sent Event response as they arrive
+ */
+async function readEventStream<T>(response: Response, onMessage: (message: T) => void) {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error("Failed to read response stream");
+  }
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      if (line.startsWith("data: ")) {
+        onMessage(JSON.parse(line.slice(6)));
+      }
+    }
+  }
+}
 
 export default function Home() {
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [previewFiles, setPreviewFiles] = useState<PreviewFile[]>([]);
+  const [fileEventSettings, setFileEventSettings] = useState<EventSettings[]>([]);
   const [currentStep, setCurrentStep] = useState<Step>("upload");
   const [preview, setPreview] = useState<CSVPreview | null>(null);
   const [mapping, setMapping] = useState<ColumnMapping>({ email: "" });
   const [eventSettings, setEventSettings] = useState<EventSettings>({});
+  const [presetId, setPresetId] = useState<string | null>(null);
+  const [matchedPreset, setMatchedPreset] = useState<PresetMatch | null>(null);
+  const [source, setSource] = useState<SourceId | null>(null);
+  const [requestedSource, setRequestedSource] = useState<SourceId | null>(null); // Picked by the user
   const [testMode, setTestMode] = useState(false);
   const [loadingPreview, setLoadingPreview] = useState(false);
   const [uploading, setUploading] = useState(false);
@@ -25,12 +105,68 @@ export default function Home() {
   const [error, setError] = useState<string | null>(null);
   const [wasTestMode, setWasTestMode] = useState(false);
   const [streamingResults, setStreamingResults] = useState<ProcessingResult[]>([]);
-  const [streamingStats, setStreamingStats] = useState({ successful: 0, failed: 0, total: 0 });
+  const [streamingStats, setStreamingStats] = useState({ successful: 0, failed: 0, alreadyPublished: 0, retries: 0, total: 0, reading: false });
+  // Each event's latest outcome across a job's runs, by its position in the job
+  const jobResults = useRef(new Map<number, ProcessingResult>());
   const [testModeAvailable, setTestModeAvailable] = useState(false);
+  const [dryRunResult, setDryRunResult] = useState<DryRunResponse | null>(null);
+  const [loadingDryRun, setLoadingDryRun] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
+  // Whole-file check from the preview, and the mapping it was made with
+  const [validation, setValidation] = useState<{ report: ValidationReport; mappingKey: string } | null>(null);
+  // Why the whole-file check failed, and the mapping it was run with
+  const [validationError, setValidationError] = useState<{ message: string; mappingKey: string } | null>(null);
+  const [blockOnValidationErrors, setBlockOnValidationErrors] = useState(true);
+  // The preview's rows are still being read and checked
+  const [checkingRows, setCheckingRows] = useState(false);
+  const previewAbort = useRef<AbortController | null>(null);
+
+  // In a batch, each file's event details are validated on top of the shared ones
+  const effectiveEventSettings =
+    previewFiles.length > 1
+      ? fileEventSettings.map((settings) => ({ ...eventSettings, ...settings }))
+      : [eventSettings];
+  const collectErrors = (validate: (settings: EventSettings) => string[]) =>
+    Array.from(new Set(effectiveEventSettings.flatMap(validate)));
+
+  const eventNameErrors = collectErrors(validateEventNames);
+  const tagErrors = collectErrors((settings) => validateTagTemplates(settings, mapping));
+  const attendanceErrors = collectErrors(validateAttendanceSettings);
+  const lifecycleErrors = collectErrors((settings) => validateLifecycleEvents(settings, mapping));
+  const timezoneErrors = validateTimezone(eventSettings);
+
+  const metadataErrors = validateMetadataMappings(mapping);
+  const customAttributeErrors = validateCustomAttributeMappings(mapping);
+  const emailRuleErrors = validateEmailRules(mapping);
+  const phoneCountryErrors = validatePhoneCountry(mapping);
+  const canProcess =
+    !!mapping.email &&
+    eventNameErrors.length === 0 &&
+    tagErrors.length === 0 &&
+    attendanceErrors.length === 0 &&
+    lifecycleErrors.length === 0 &&
+    timezoneErrors.length === 0 &&
+    metadataErrors.length === 0 &&
+    customAttributeErrors.length === 0 &&
+    emailRuleErrors.length === 0 &&
+    phoneCountryErrors.length === 0;
+
+  const mappingKey = JSON.stringify(mapping);
+  const currentValidationError =
+    validationError?.mappingKey === mappingKey ? validationError.message : null;
+  const validationPending =
+    checkingRows || (validation?.mappingKey !== mappingKey && !currentValidationError);
+  // Without a finished report for this mapping there is nothing to vouch for the file
+  const validationBlocked =
+    blockOnValidationErrors &&
+    (validationPending || !validation || validation.report.errorCount > 0);
 
-  const fieldLabels: Record<keyof ColumnMapping, string> = {
+  const fieldLabels: Record<ColumnField, string> = {
     email: "Email (required)",
     name: "Name",
+    firstName: "First Name",
+    lastName: "Last Name",
+    preferredName: "Preferred Name (instead of first name)",
     phone_number: "Phone Number",
     registrationDate: "Registration Date",
     attendanceDate: "Attendance Date",
@@ -38,6 +174,15 @@ export default function Home() {
     status: "Status",
     hasJoinedEvent: "Has Joined Event (boolean)",
     approval_status: "Approval Status",
+    company: "Company / Organization",
+    companyId: "Company ID",
+    externalId: "External ID",
+    eventName: "Event Name (per row)",
+    eventDate: "Event Date (per row)",
+    presenter: "Presenter (per row)",
+    joinTime: "Join Time",
+    leaveTime: "Leave Time",
+    duration: "Duration (minutes)",
   };
 
   // Check if test mode is available and enable by default if available
@@ -61,78 +206,368 @@ export default function Home() {
   }, []);
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      if (selectedFile.name.endsWith(".csv")) {
-        setFile(selectedFile);
+    const selectedFiles = Array.from(e.target.files || []);
+    if (selectedFiles.length > 0) {
+      if (selectedFiles.every((selectedFile) => selectedFile.name.endsWith(".csv"))) {
+        setFiles(selectedFiles);
         setError(null);
         setResults(null);
         setCurrentStep("mapping");
-        await loadPreview(selectedFile);
+        await loadPreview(selectedFiles);
       } else {
-        setError("Please select a CSV file");
-        setFile(null);
+        setError("Please select CSV files only");
+        setFiles([]);
       }
     }
   };
 
-  const loadPreview = async (selectedFile: File) => {
+  /**
+   * Show the preview as soon as the server has read the headers, then count
+   * and check the rows as they stream in
+   */
+  const loadPreview = async (selectedFiles: File[], requestedSource?: SourceId) => {
+    previewAbort.current?.abort();
+    const controller = new AbortController();
+    previewAbort.current = controller;
     setLoadingPreview(true);
+    setCheckingRows(false);
+    setValidation(null);
+    setValidationError(null);
     setError(null);
 
     try {
       const formData = new FormData();
-      formData.append("file", selectedFile);
+      for (const selectedFile of selectedFiles) {
+        formData.append("file", selectedFile);
+      }
+      // Without a source the server detects it from the headers
+      if (requestedSource) {
+        formData.append("source", requestedSource);
+      }
 
       const response = await fetch("/api/preview", {
         method: "POST",
         body: formData,
+        signal: controller.signal,
       });
 
-      const data: PreviewResponse = await response.json();
-
-      if (!response.ok || !data.success) {
+      if (!response.ok) {
+        const data: PreviewResponse = await response.json();
         setError(data.error || "Failed to preview CSV");
         setCurrentStep("upload");
         return;
       }
 
-      setPreview(data.preview);
-      if (data.suggestedMapping) {
-        setMapping(data.suggestedMapping);
-      }
-      if (data.extractedEventSettings) {
-        setEventSettings(data.extractedEventSettings);
-      }
+      // The server checks the file against the mapping applied with the preview
+      let initialMapping: ColumnMapping | undefined;
+      await readEventStream<PreviewMessage>(response, (message) => {
+        if (message.type === "preview") {
+          initialMapping = message.matchedPreset?.preset.mapping || message.suggestedMapping;
+          applyPreview(message, requestedSource);
+          setCheckingRows(true);
+          setLoadingPreview(false);
+        } else if (message.type === "progress") {
+          setPreview((current) => current && { ...current, totalRows: message.totalRows });
+        } else if (message.type === "complete") {
+          setPreview((current) => current && { ...current, totalRows: message.totalRows });
+          setPreviewFiles((current) =>
+            current.map((previewFile, index) => ({ ...previewFile, totalRows: message.fileRows[index] }))
+          );
+          setValidation(
+            initialMapping
+              ? { report: message.validation, mappingKey: JSON.stringify(initialMapping) }
+              : null
+          );
+        } else if (message.type === "error") {
+          setError(`Could not read every row: ${message.error}`);
+          if (initialMapping) {
+            setValidationError({ message: message.error, mappingKey: JSON.stringify(initialMapping) });
+          }
+        }
+      });
     } catch (err) {
+      if (controller.signal.aborted) {
+        return;
+      }
       setError(
         err instanceof Error ? err.message : "Failed to load preview"
       );
       setCurrentStep("upload");
     } finally {
-      setLoadingPreview(false);
+      if (previewAbort.current === controller) {
+        previewAbort.current = null;
+        setLoadingPreview(false);
+        setCheckingRows(false);
+      }
     }
   };
 
-  const handleProcess = async () => {
-    if (!file || !mapping.email) {
-      setError("Email column mapping is required");
+  /**
+   * Apply the columns, suggested mapping and event details of a preview
+   */
+  const applyPreview = (data: PreviewResponse, requestedSource?: SourceId) => {
+    setPreview(data.preview);
+    setSource(data.source || null);
+    setRequestedSource(requestedSource || null);
+    setMatchedPreset(data.matchedPreset || null);
+
+    // In a batch, the event details extracted from each file belong to that file
+    const batchFiles = data.files && data.files.length > 1 ? data.files : [];
+    setPreviewFiles(batchFiles);
+    setFileEventSettings(batchFiles.map((previewFile) => previewFile.extractedEventSettings || {}));
+    const extractedEventSettings = batchFiles.length > 0 ? undefined : data.extractedEventSettings;
+
+    if (data.matchedPreset) {
+      // A saved preset for these headers wins over the heuristic suggestion
+      setPresetId(data.matchedPreset.preset.id);
+      setMapping(data.matchedPreset.preset.mapping);
+      setEventSettings({
+        ...data.matchedPreset.preset.eventSettings,
+        ...extractedEventSettings,
+      });
+    } else {
+      setPresetId(null);
+      if (data.suggestedMapping) {
+        setMapping(data.suggestedMapping);
+      }
+      setEventSettings(extractedEventSettings || {});
+    }
+  };
+
+  // Check the whole file again once the mapping stops changing
+  useEffect(() => {
+    const mappingKey = JSON.stringify(mapping);
+    if (
+      currentStep !== "mapping" ||
+      files.length === 0 ||
+      checkingRows ||
+      validation?.mappingKey === mappingKey ||
+      validationError?.mappingKey === mappingKey
+    ) {
       return;
     }
 
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const formData = new FormData();
+        for (const selectedFile of files) {
+          formData.append("file", selectedFile);
+        }
+        formData.append("mapping", mappingKey);
+        if (requestedSource) {
+          formData.append("source", requestedSource);
+        }
+
+        const response = await fetch("/api/preview", {
+          method: "POST",
+          body: formData,
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          const data: PreviewResponse = await response.json();
+          setValidationError({ message: data.error || "Failed to check CSV", mappingKey });
+          return;
+        }
+        await readEventStream<PreviewMessage>(response, (message) => {
+          if (message.type === "complete") {
+            setValidation({ report: message.validation, mappingKey });
+          } else if (message.type === "error") {
+            setValidationError({ message: message.error, mappingKey });
+          }
+        });
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error("Failed to check CSV:", err);
+          setValidationError({
+            message: err instanceof Error ? err.message : "Failed to check CSV",
+            mappingKey,
+          });
+        }
+      }
+    }, 500);
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [mapping, files, requestedSource, currentStep, checkingRows, validation, validationError]);
+
+  /**
+   * Add the selected files, their per-file event details and the shared
+   * settings to an upload request
+   */
+  const appendUploadFields = (formData: FormData) => {
+    for (const selectedFile of files) {
+      formData.append("file", selectedFile);
+    }
+    if (files.length > 1) {
+      formData.append("fileEventSettings", JSON.stringify(fileEventSettings));
+    }
+    formData.append("mapping", JSON.stringify(mapping));
+    formData.append("eventSettings", JSON.stringify(eventSettings));
+    formData.append("blockOnValidationErrors", String(blockOnValidationErrors));
+    // Otherwise each file's source is detected again, as in the preview
+    if (requestedSource) {
+      formData.append("source", requestedSource);
+    }
+  };
+
+  /**
+   * Apply one SSE message from an upload job to the UI.
+   * Returns true once the job has finished (complete or error).
+   */
+  const handleStreamMessage = useCallback(
+    (data: Record<string, unknown>, runTestMode: boolean): boolean => {
+      if (data.type === "start") {
+        if (typeof data.jobId === "string") {
+          localStorage.setItem(JOB_STORAGE_KEY, data.jobId);
+          setJobId(data.jobId);
+        }
+        setStreamingStats({
+          successful: 0,
+          failed: 0,
+          alreadyPublished: 0,
+          retries: 0,
+          total: Number(data.totalEvents) || 0,
+          reading: false,
+        });
+      } else if (data.type === "progress") {
+        if (typeof data.eventIndex === "number") {
+          jobResults.current.set(data.eventIndex, data.result as ProcessingResult);
+        }
+        setStreamingResults((prev) => [...prev, data.result as ProcessingResult]);
+        setStreamingStats({
+          successful: Number(data.successful) || 0,
+          failed: Number(data.failed) || 0,
+          alreadyPublished: Number(data.alreadyPublished) || 0,
+          retries: Number(data.totalRetries) || 0,
+          total: Number(data.total) || 0,
+          reading: data.reading === true,
+        });
+      } else if (data.type === "complete") {
+        setResults({
+          success: true,
+          totalProcessed: Number(data.totalProcessed) || 0,
+          successful: Number(data.successful) || 0,
+          failed: Number(data.failed) || 0,
+          alreadyPublished: Number(data.alreadyPublished) || 0,
+          tagFailed: Number(data.tagFailed) || 0,
+          results: Array.from(jobResults.current.entries())
+            .sort(([a], [b]) => a - b)
+            .map(([, result]) => result),
+          errors: data.errors as string[] | undefined,
+          errorCount: Number(data.errorCount) || 0,
+        });
+        setWasTestMode(runTestMode);
+        setCurrentStep("results");
+        setUploading(false);
+        localStorage.removeItem(JOB_STORAGE_KEY);
+        return true;
+      } else if (data.type === "error") {
+        setError(typeof data.error === "string" ? data.error : "An error occurred");
+        setCurrentStep("mapping");
+        setUploading(false);
+        localStorage.removeItem(JOB_STORAGE_KEY);
+        return true;
+      }
+      return false;
+    },
+    []
+  );
+
+  /**
+   * Follow a server-side job's event stream, replaying everything after lastEventId.
+   * EventSource reconnects on its own and resumes from the last event it received.
+   */
+  const attachToJob = useCallback(
+    (jobId: string, lastEventId: number, runTestMode: boolean) => {
+      const eventSource = new EventSource(
+        `/api/jobs/${jobId}/events?lastEventId=${lastEventId}`
+      );
+
+      eventSource.onmessage = (event) => {
+        try {
+          const finished = handleStreamMessage(JSON.parse(event.data), runTestMode);
+          if (finished) {
+            eventSource.close();
+          }
+        } catch (e) {
+          console.error("Error parsing SSE data:", e);
+        }
+      };
+
+      eventSource.onerror = () => {
+        // CLOSED means the server refused the stream (e.g. the job no longer exists)
+        if (eventSource.readyState === EventSource.CLOSED) {
+          setError("Lost connection to the upload job");
+          setCurrentStep("mapping");
+          setUploading(false);
+          localStorage.removeItem(JOB_STORAGE_KEY);
+        }
+      };
+    },
+    [handleStreamMessage]
+  );
+
+  // Reattach to a job that was still running when the page was reloaded
+  useEffect(() => {
+    async function resumeJob() {
+      const jobId = localStorage.getItem(JOB_STORAGE_KEY);
+      if (!jobId) {
+        return;
+      }
+
+      try {
+        const response = await fetch(`/api/jobs/${jobId}`);
+        const data: JobStatusResponse = await response.json();
+
+        if (!response.ok || !data.job) {
+          localStorage.removeItem(JOB_STORAGE_KEY);
+          return;
+        }
+
+        if (data.job.status === "running") {
+          jobResults.current.clear();
+          setStreamingResults([]);
+          setUploading(true);
+          setCurrentStep("processing");
+          attachToJob(data.job.id, data.job.runStartedEventId, data.job.testMode);
+        } else {
+          if (data.job.status === "interrupted") {
+            setError(
+              `The previous run stopped before finishing (${data.job.completedEvents} of ${data.job.totalEvents} events processed)`
+            );
+          }
+          localStorage.removeItem(JOB_STORAGE_KEY);
+        }
+      } catch (err) {
+        console.error("Failed to resume upload job:", err);
+      }
+    }
+    resumeJob();
+  }, [attachToJob]);
+
+  /**
+   * Start an upload job and stream its progress, reattaching through the
+   * job's event stream if the connection drops before the job finishes
+   */
+  const runUpload = async (runTestMode: boolean) => {
     setUploading(true);
     setError(null);
     setResults(null);
+    jobResults.current.clear();
     setStreamingResults([]);
-    setStreamingStats({ successful: 0, failed: 0, total: 0 });
+    setStreamingStats({ successful: 0, failed: 0, alreadyPublished: 0, retries: 0, total: 0, reading: false });
     setCurrentStep("processing");
 
+    let jobId: string | null = null;
+    let lastEventId = 0;
+    let finished = false;
+
     try {
       const formData = new FormData();
-      formData.append("file", file);
-      formData.append("mapping", JSON.stringify(mapping));
-      formData.append("eventSettings", JSON.stringify(eventSettings));
-      formData.append("testMode", testMode.toString());
+      appendUploadFields(formData);
+      formData.append("testMode", runTestMode.toString());
 
       const response = await fetch("/api/upload", {
         method: "POST",
@@ -175,40 +610,15 @@ export default function Home() {
         buffer = lines.pop() || "";
 
         for (const line of lines) {
-          if (line.startsWith("data: ")) {
+          if (line.startsWith("id: ")) {
+            lastEventId = Number(line.slice(4)) || lastEventId;
+          } else if (line.startsWith("data: ")) {
             try {
               const data = JSON.parse(line.slice(6));
-
-              if (data.type === "start") {
-                setStreamingStats({
-                  successful: 0,
-                  failed: 0,
-                  total: data.totalEvents,
-                });
-              } else if (data.type === "progress") {
-                setStreamingResults((prev) => [...prev, data.result]);
-                setStreamingStats({
-                  successful: data.successful,
-                  failed: data.failed,
-                  total: data.total,
-                });
-              } else if (data.type === "complete") {
-                setResults({
-                  success: true,
-                  totalProcessed: data.totalProcessed,
-                  successful: data.successful,
-                  failed: data.failed,
-                  results: data.results,
-                  errors: data.errors,
-                });
-                setWasTestMode(testMode);
-                setCurrentStep("results");
-                setUploading(false);
-              } else if (data.type === "error") {
-                setError(data.error || "An error occurred");
-                setCurrentStep("mapping");
-                setUploading(false);
+              if (typeof data.jobId === "string") {
+                jobId = data.jobId;
               }
+              finished = handleStreamMessage(data, runTestMode) || finished;
             } catch (e) {
               console.error("Error parsing SSE data:", e);
             }
@@ -216,136 +626,150 @@ export default function Home() {
         }
       }
     } catch (err) {
-      setError(
-        err instanceof Error ? err.message : "An unexpected error occurred"
-      );
-      setCurrentStep("mapping");
-      setUploading(false);
+      if (!jobId) {
+        setError(
+          err instanceof Error ? err.message : "An unexpected error occurred"
+        );
+        setCurrentStep("mapping");
+        setUploading(false);
+        return;
+      }
+    }
+
+    // The stream ended before the job finished: follow it through the job's event stream
+    if (!finished && jobId) {
+      attachToJob(jobId, lastEventId, runTestMode);
     }
   };
 
-  const handleRunInProduction = async () => {
-    if (!file || !mapping.email) {
+  const handleProcess = async () => {
+    if (files.length === 0 || !mapping.email) {
       setError("Email column mapping is required");
       return;
     }
 
-    setUploading(true);
+    await runUpload(testMode);
+  };
+
+  const handleDryRun = async () => {
+    if (files.length === 0 || !mapping.email) {
+      setError("Email column mapping is required");
+      return;
+    }
+
+    setLoadingDryRun(true);
     setError(null);
-    setResults(null);
-    setStreamingResults([]);
-    setStreamingStats({ successful: 0, failed: 0, total: 0 });
-    setCurrentStep("processing");
-    setTestMode(false); // Disable test mode for production run
+    setDryRunResult(null);
 
     try {
       const formData = new FormData();
-      formData.append("file", file);
-      formData.append("mapping", JSON.stringify(mapping));
-      formData.append("eventSettings", JSON.stringify(eventSettings));
-      formData.append("testMode", "false");
+      appendUploadFields(formData);
+      formData.append("testMode", testMode.toString());
+      formData.append("dryRun", "true");
 
       const response = await fetch("/api/upload", {
         method: "POST",
         body: formData,
       });
 
-      if (!response.ok) {
-        // Try to parse error response
-        try {
-          const errorData = await response.json();
-          setError(errorData.error || "Upload failed");
-        } catch {
-          setError("Upload failed");
-        }
-        setCurrentStep("mapping");
-        setUploading(false);
-        return;
-      }
-
-      // Handle streaming response
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
+      const data = await response.json();
 
-      if (!reader) {
-        setError("Failed to read response stream");
-        setCurrentStep("mapping");
-        setUploading(false);
+      if (!response.ok || !data.success) {
+        setError(data.error || "Dry run failed");
         return;
       }
 
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
+      setDryRunResult(data as DryRunResponse);
+      setCurrentStep("review");
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "An unexpected error occurred"
+      );
+    } finally {
+      setLoadingDryRun(false);
+    }
+  };
 
-        if (done) break;
+  const handleRetryFailed = async () => {
+    if (!jobId) {
+      return;
+    }
 
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
+    setError(null);
 
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            try {
-              const data = JSON.parse(line.slice(6));
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/retry`, {
+        method: "POST",
+      });
+      const data: RetryJobResponse = await response.json();
 
-              if (data.type === "start") {
-                setStreamingStats({
-                  successful: 0,
-                  failed: 0,
-                  total: data.totalEvents,
-                });
-              } else if (data.type === "progress") {
-                setStreamingResults((prev) => [...prev, data.result]);
-                setStreamingStats({
-                  successful: data.successful,
-                  failed: data.failed,
-                  total: data.total,
-                });
-              } else if (data.type === "complete") {
-                setResults({
-                  success: true,
-                  totalProcessed: data.totalProcessed,
-                  successful: data.successful,
-                  failed: data.failed,
-                  results: data.results,
-                  errors: data.errors,
-                });
-                setWasTestMode(false);
-                setCurrentStep("results");
-                setUploading(false);
-              } else if (data.type === "error") {
-                setError(data.error || "An error occurred");
-                setCurrentStep("mapping");
-                setUploading(false);
-              }
-            } catch (e) {
-              console.error("Error parsing SSE data:", e);
-            }
-          }
-        }
+      if (!response.ok || !data.success) {
+        setError(data.error || "Retry failed");
+        return;
       }
+
+      setStreamingResults([]);
+      setStreamingStats({ successful: 0, failed: 0, alreadyPublished: 0, retries: 0, total: data.retrying || 0, reading: false });
+      setUploading(true);
+      setCurrentStep("processing");
+      localStorage.setItem(JOB_STORAGE_KEY, jobId);
+      attachToJob(jobId, data.fromEventId || 0, wasTestMode);
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "An unexpected error occurred"
       );
-      setCurrentStep("mapping");
-      setUploading(false);
+    }
+  };
+
+  const handleRunInProduction = async () => {
+    if (files.length === 0 || !mapping.email) {
+      setError("Email column mapping is required");
+      return;
+    }
+
+    setTestMode(false); // Disable test mode for production run
+    await runUpload(false);
+  };
+
+  /**
+   * Apply a saved preset's mapping and event settings, keeping this upload's event name and date
+   */
+  const handleApplyPreset = (preset: MappingPreset | null) => {
+    setPresetId(preset ? preset.id : null);
+    if (preset) {
+      setMapping(preset.mapping);
+      setEventSettings((prev) => ({
+        eventName: prev.eventName,
+        eventDate: prev.eventDate,
+        eventTime: prev.eventTime,
+        ...preset.eventSettings,
+      }));
     }
   };
 
   const handleReset = () => {
-    setFile(null);
+    previewAbort.current?.abort();
+    setFiles([]);
+    setPreviewFiles([]);
+    setFileEventSettings([]);
     setPreview(null);
     setMapping({ email: "" });
     setEventSettings({});
+    setPresetId(null);
+    setMatchedPreset(null);
+    setSource(null);
+    setRequestedSource(null);
     setTestMode(false);
     setResults(null);
     setError(null);
     setWasTestMode(false);
+    jobResults.current.clear();
     setStreamingResults([]);
-    setStreamingStats({ successful: 0, failed: 0, total: 0 });
+    setStreamingStats({ successful: 0, failed: 0, alreadyPublished: 0, retries: 0, total: 0, reading: false });
+    setDryRunResult(null);
+    setJobId(null);
+    setValidation(null);
+    setValidationError(null);
     setCurrentStep("upload");
     const fileInput = document.getElementById("file-input") as HTMLInputElement;
     if (fileInput) {
@@ -353,7 +777,63 @@ export default function Home() {
     }
   };
 
+  const countResult = (
+    counts: { successful: number; failed: number; alreadyPublished: number },
+    result: ProcessingResult
+  ) => {
+    if (result.alreadyPublished) {
+      counts.alreadyPublished++;
+    } else if (result.success) {
+      counts.successful++;
+    } else {
+      counts.failed++;
+    }
+  };
+
+  const groupResultsByEvent = (resultList: ProcessingResult[]) => {
+    const groups = new Map<
+      string,
+      { event: string; eventType: string; successful: number; failed: number; alreadyPublished: number }
+    >();
+    for (const result of resultList) {
+      const event = result.event || "";
+      const key = `${event}\u0000${result.eventType}`;
+      const group = groups.get(key) || {
+        event,
+        eventType: result.eventType,
+        successful: 0,
+        failed: 0,
+        alreadyPublished: 0,
+      };
+      countResult(group, result);
+      groups.set(key, group);
+    }
+    return Array.from(groups.values()).sort(
+      (a, b) => a.event.localeCompare(b.event) || a.eventType.localeCompare(b.eventType)
+    );
+  };
+
+  /**
+   * Per-file breakdown for batch runs, in upload order
+   */
+  const groupResultsByFile = (resultList: ProcessingResult[]) => {
+    const groups = new Map<
+      string,
+      { file: string; successful: number; failed: number; alreadyPublished: number }
+    >();
+    for (const result of resultList) {
+      const file = result.file || "";
+      const group = groups.get(file) || { file, successful: 0, failed: 0, alreadyPublished: 0 };
+      countResult(group, result);
+      groups.set(file, group);
+    }
+    return Array.from(groups.values());
+  };
+
   const getResultStatusColor = (result: ProcessingResult) => {
+    if (result.alreadyPublished) {
+      return "text-zinc-500 dark:text-zinc-400";
+    }
     if (result.success) {
       return "text-green-600 dark:text-green-400";
     }
@@ -361,6 +841,9 @@ export default function Home() {
   };
 
   const getResultStatusIcon = (result: ProcessingResult) => {
+    if (result.alreadyPublished) {
+      return "↺";
+    }
     if (result.success) {
       return "✓";
     }
@@ -392,7 +875,7 @@ export default function Home() {
               </div>
               <div className="h-1 w-12 bg-zinc-200 dark:bg-zinc-800"></div>
               <div
-                className={`flex h-8 w-8 items-center justify-center rounded-full text-sm font-semibold ${currentStep === "mapping"
+                className={`flex h-8 w-8 items-center justify-center rounded-full text-sm font-semibold ${currentStep === "mapping" || currentStep === "review"
                   ? "bg-black text-white dark:bg-white dark:text-black"
                   : currentStep === "processing"
                     ? "bg-zinc-200 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400"
@@ -420,12 +903,13 @@ export default function Home() {
                 htmlFor="file-input"
                 className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300"
               >
-                Select CSV File
+                Select CSV Files
               </label>
               <input
                 id="file-input"
                 type="file"
                 accept=".csv"
+                multiple
                 onChange={handleFileChange}
                 className="block w-full text-sm text-zinc-500 file:mr-4 file:rounded-full file:border-0 file:bg-zinc-100 file:px-4 file:py-2 file:text-sm file:font-semibold file:text-zinc-700 hover:file:bg-zinc-200 dark:file:bg-zinc-800 dark:file:text-zinc-300 dark:hover:file:bg-zinc-700"
               />
@@ -440,10 +924,53 @@ export default function Home() {
                   Map CSV Columns
                 </h2>
                 <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
-                  Preview: {preview.totalRows} rows found. Map your CSV columns
-                  to the expected fields below.
+                  Preview: {checkingRows ? `reading rows (${preview.totalRows || 0} so far)` : `${preview.totalRows} rows found`}
+                  {previewFiles.length > 1 && ` in ${previewFiles.length} files`}. Map your CSV
+                  columns to the expected fields below.
                 </p>
 
+                {/* Batch Files */}
+                {previewFiles.length > 1 && (
+                  <BatchFilesEditor
+                    files={previewFiles}
+                    fileEventSettings={fileEventSettings}
+                    onChange={setFileEventSettings}
+                  />
+                )}
+
+                {/* Export Source */}
+                <div className="mb-6">
+                  <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                    Export Source
+                  </label>
+                  <select
+                    value={source || "generic"}
+                    onChange={(e) => files.length > 0 && loadPreview(files, e.target.value as SourceId)}
+                    disabled={loadingPreview}
+                    className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:focus:border-white dark:focus:ring-white"
+                  >
+                    {(Object.entries(SOURCE_LABELS) as Array<[SourceId, string]>).map(([id, label]) => (
+                      <option key={id} value={id}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                    Detected from the file&apos;s headers. Changing it re-reads the
+                    {files.length > 1 ? " files" : " file"} and resets the suggested mapping.
+                  </p>
+                </div>
+
+                {/* Saved Mapping Presets */}
+                <PresetsPanel
+                  columns={preview.columns}
+                  mapping={mapping}
+                  eventSettings={eventSettings}
+                  selectedPresetId={presetId}
+                  matchedPreset={matchedPreset}
+                  onApply={handleApplyPreset}
+                />
+
                 {/* Sample Row Preview */}
                 {Object.keys(preview.sampleRow).length > 0 && (
                   <div className="mb-6 overflow-x-auto rounded-lg border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
@@ -486,7 +1013,7 @@ export default function Home() {
 
                 {/* Column Mapping Fields */}
                 <div className="space-y-4">
-                  {(Object.keys(fieldLabels) as Array<keyof ColumnMapping>).map(
+                  {(Object.keys(fieldLabels) as ColumnField[]).map(
                     (field) => (
                       <div key={field}>
                         <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
@@ -512,16 +1039,138 @@ export default function Home() {
                       </div>
                     )
                   )}
+                  <div>
+                    <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                      Create New Contacts As
+                    </label>
+                    <select
+                      value={mapping.contactRole || "user"}
+                      onChange={(e) =>
+                        setMapping({ ...mapping, contactRole: e.target.value as ContactRole })
+                      }
+                      className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:focus:border-white dark:focus:ring-white"
+                    >
+                      <option value="user">Users</option>
+                      <option value="lead">Leads</option>
+                    </select>
+                    <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                      Existing contacts are matched by External ID, then email, and keep their role.
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        id="fix-name-case"
+                        checked={!!mapping.fixNameCase}
+                        onChange={(e) => setMapping({ ...mapping, fixNameCase: e.target.checked })}
+                        className="h-4 w-4 rounded border-zinc-300"
+                      />
+                      <label htmlFor="fix-name-case" className="text-sm text-zinc-700 dark:text-zinc-300">
+                        Fix the casing of names written in ALL CAPS or all lowercase
+                      </label>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        id="keep-existing-names"
+                        checked={!!mapping.keepExistingNames}
+                        onChange={(e) => setMapping({ ...mapping, keepExistingNames: e.target.checked })}
+                        className="h-4 w-4 rounded border-zinc-300"
+                      />
+                      <label htmlFor="keep-existing-names" className="text-sm text-zinc-700 dark:text-zinc-300">
+                        Don&apos;t overwrite names existing contacts already have
+                      </label>
+                    </div>
+                    <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                      When First Name or Last Name is mapped, the name is built from
+                      them (with the Preferred Name in place of the first name), falling
+                      back to the Name column.
+                    </p>
+                  </div>
+                  {mapping.phone_number && (
+                    <div>
+                      <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                        Default Phone Country
+                      </label>
+                      <select
+                        value={mapping.defaultPhoneCountry || ""}
+                        onChange={(e) =>
+                          setMapping({
+                            ...mapping,
+                            defaultPhoneCountry: (e.target.value || undefined) as ColumnMapping["defaultPhoneCountry"],
+                          })
+                        }
+                        className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:focus:border-white dark:focus:ring-white"
+                      >
+                        <option value="">None (numbers must start with +)</option>
+                        {PHONE_COUNTRY_OPTIONS.map((country) => (
+                          <option key={country.code} value={country.code}>
+                            {country.name} ({country.code})
+                          </option>
+                        ))}
+                      </select>
+                      <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                        Phone numbers are sent in international format; numbers without a country code are read as numbers in this country.
+                      </p>
+                      {phoneCountryErrors.length > 0 && (
+                        <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                          {phoneCountryErrors.join("; ")}
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </div>
 
+                {/* Custom Metadata Columns */}
+                <MetadataColumnsEditor
+                  columns={preview.columns}
+                  value={mapping.metadataColumns || []}
+                  errors={metadataErrors}
+                  onChange={(metadataColumns) =>
+                    setMapping({ ...mapping, metadataColumns })
+                  }
+                />
+
+                {/* Contact Custom Attributes */}
+                <CustomAttributesEditor
+                  columns={preview.columns}
+                  value={mapping.customAttributes || []}
+                  createMissing={!!mapping.createMissingAttributes}
+                  errors={customAttributeErrors}
+                  onChange={(customAttributes) =>
+                    setMapping({ ...mapping, customAttributes })
+                  }
+                  onCreateMissingChange={(createMissingAttributes) =>
+                    setMapping({ ...mapping, createMissingAttributes })
+                  }
+                />
+
+                {/* Email checks and duplicate rows */}
+                <EmailRulesEditor
+                  mapping={mapping}
+                  errors={emailRuleErrors}
+                  onChange={setMapping}
+                />
+
+                {/* Whole-file check */}
+                <ValidationReportPanel
+                  report={validation?.report || null}
+                  pending={validationPending}
+                  error={currentValidationError}
+                  blockOnErrors={blockOnValidationErrors}
+                  onBlockOnErrorsChange={setBlockOnValidationErrors}
+                />
+
                 {/* Event Settings Section */}
                 <div className="mt-8 rounded-lg border border-blue-200 bg-blue-50 p-6 dark:border-blue-800 dark:bg-blue-900/20">
                   <h3 className="mb-3 text-lg font-semibold text-black dark:text-zinc-50">
                     Event Information (Applies to all attendees)
                   </h3>
                   <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
-                    Set event details that will apply to all attendees. These
-                    will override any values from CSV columns.
+                    Set event details that will apply to all attendees. Mapped
+                    event name, date and presenter columns override these per row
+                    {previewFiles.length > 1 && ", and each file's details above override them per file"}.
                   </p>
                   <div className="space-y-4">
                     <div>
@@ -541,7 +1190,7 @@ export default function Home() {
                         className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 placeholder:text-zinc-400 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:placeholder:text-zinc-500 dark:focus:border-white dark:focus:ring-white"
                       />
                     </div>
-                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
                       <div>
                         <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
                           Event Date
@@ -574,7 +1223,39 @@ export default function Home() {
                           className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:focus:border-white dark:focus:ring-white"
                         />
                       </div>
+                      <div>
+                        <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                          Timezone
+                        </label>
+                        <input
+                          type="text"
+                          list="timezones"
+                          value={eventSettings.timezone || ""}
+                          onChange={(e) =>
+                            setEventSettings({
+                              ...eventSettings,
+                              timezone: e.target.value || undefined,
+                            })
+                          }
+                          placeholder={DEFAULT_TIMEZONE}
+                          className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 placeholder:text-zinc-400 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:placeholder:text-zinc-500 dark:focus:border-white dark:focus:ring-white"
+                        />
+                        <datalist id="timezones">
+                          {Intl.supportedValuesOf("timeZone").map((timezone) => (
+                            <option key={timezone} value={timezone} />
+                          ))}
+                        </datalist>
+                      </div>
                     </div>
+                    {timezoneErrors.length > 0 ? (
+                      <p className="text-sm text-red-600 dark:text-red-400">
+                        {timezoneErrors.join("; ")}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                        The event time and CSV times without an offset are read in this timezone.
+                      </p>
+                    )}
                     <div>
                       <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
                         Presenter
@@ -592,9 +1273,75 @@ export default function Home() {
                         className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-700 placeholder:text-zinc-400 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:placeholder:text-zinc-500 dark:focus:border-white dark:focus:ring-white"
                       />
                     </div>
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                      <div>
+                        <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                          Registration Event Name
+                        </label>
+                        <input
+                          type="text"
+                          value={eventSettings.registrationEventName || ""}
+                          onChange={(e) =>
+                            setEventSettings({
+                              ...eventSettings,
+                              registrationEventName: e.target.value,
+                            })
+                          }
+                          placeholder={DEFAULT_REGISTRATION_EVENT_NAME}
+                          className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 font-mono text-sm text-zinc-700 placeholder:text-zinc-400 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:placeholder:text-zinc-500 dark:focus:border-white dark:focus:ring-white"
+                        />
+                      </div>
+                      <div>
+                        <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                          Attendance Event Name
+                        </label>
+                        <input
+                          type="text"
+                          value={eventSettings.attendanceEventName || ""}
+                          onChange={(e) =>
+                            setEventSettings({
+                              ...eventSettings,
+                              attendanceEventName: e.target.value,
+                            })
+                          }
+                          placeholder={DEFAULT_ATTENDANCE_EVENT_NAME}
+                          className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 font-mono text-sm text-zinc-700 placeholder:text-zinc-400 focus:border-black focus:outline-none focus:ring-1 focus:ring-black dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:placeholder:text-zinc-500 dark:focus:border-white dark:focus:ring-white"
+                        />
+                      </div>
+                    </div>
+                    {eventNameErrors.length > 0 && (
+                      <ul className="list-disc space-y-1 pl-5 text-sm text-red-600 dark:text-red-400">
+                        {eventNameErrors.map((message) => (
+                          <li key={message}>{message}</li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                 </div>
 
+                {/* Attendance Threshold */}
+                {hasAttendanceDurationColumns(mapping) && (
+                  <AttendanceThresholdEditor
+                    eventSettings={eventSettings}
+                    errors={attendanceErrors}
+                    onChange={setEventSettings}
+                  />
+                )}
+
+                {/* Lifecycle Events */}
+                <LifecycleEventsEditor
+                  eventSettings={eventSettings}
+                  errors={lifecycleErrors}
+                  onChange={setEventSettings}
+                />
+
+                {/* Contact Tags */}
+                <ContactTagsEditor
+                  eventSettings={eventSettings}
+                  errors={tagErrors}
+                  onChange={setEventSettings}
+                />
+
                 {/* Test Mode Toggle */}
                 {testModeAvailable ? (
                   <div className="mt-6 rounded-lg border border-yellow-200 bg-yellow-50 p-4 dark:border-yellow-800 dark:bg-yellow-900/20">
@@ -643,11 +1390,18 @@ export default function Home() {
                 <div className="mt-6 flex gap-4">
                   <button
                     onClick={handleProcess}
-                    disabled={!mapping.email}
+                    disabled={!canProcess || validationBlocked}
                     className="rounded-full bg-black px-6 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-white dark:text-black dark:hover:bg-zinc-200"
                   >
                     {testMode ? "Test Mode: Process" : "Process & Upload"}
                   </button>
+                  <button
+                    onClick={handleDryRun}
+                    disabled={!canProcess || loadingDryRun}
+                    className="rounded-full border border-zinc-300 bg-white px-6 py-2 text-sm font-medium text-zinc-700 transition-colors hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                  >
+                    {loadingDryRun ? "Building Preview..." : "Dry Run"}
+                  </button>
                   <button
                     onClick={handleReset}
                     className="rounded-full border border-zinc-300 bg-white px-6 py-2 text-sm font-medium text-zinc-700 transition-colors hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
@@ -659,6 +1413,190 @@ export default function Home() {
             </div>
           )}
 
+          {/* Dry Run Review */}
+          {currentStep === "review" && dryRunResult && (
+            <div className="space-y-6">
+              <div className="rounded-lg border border-zinc-200 bg-zinc-50 p-6 dark:border-zinc-800 dark:bg-zinc-800/50">
+                <h2 className="mb-2 text-xl font-semibold text-black dark:text-zinc-50">
+                  Dry Run Review
+                </h2>
+                <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
+                  Nothing has been sent to Intercom. These are the exact payloads
+                  that would be published{testMode ? " in test mode" : ""}.
+                </p>
+                <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                  <div>
+                    <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                      CSV Rows
+                    </p>
+                    <p className="text-2xl font-bold text-black dark:text-zinc-50">
+                      {dryRunResult.totalRows}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                      Attendees
+                    </p>
+                    <p className="text-2xl font-bold text-black dark:text-zinc-50">
+                      {dryRunResult.totalProcessed}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                      Events
+                    </p>
+                    <p className="text-2xl font-bold text-green-600 dark:text-green-400">
+                      {dryRunResult.totalEvents}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                      Skipped Rows
+                    </p>
+                    <p className="text-2xl font-bold text-yellow-600 dark:text-yellow-400">
+                      {dryRunResult.skippedCount}
+                    </p>
+                  </div>
+                </div>
+                {Object.keys(dryRunResult.eventCounts).length > 0 && (
+                  <div className="mt-4 flex flex-wrap gap-2">
+                    {Object.entries(dryRunResult.eventCounts).map(([eventName, count]) => (
+                      <span
+                        key={eventName}
+                        className="rounded-full bg-zinc-100 px-2 py-0.5 text-xs font-medium text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+                      >
+                        {eventName}: {count}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Payload Table */}
+              {dryRunResult.payloads.length > 0 && (
+                <div className="rounded-lg border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+                  <div className="border-b border-zinc-200 px-6 py-4 dark:border-zinc-800">
+                    <h2 className="text-lg font-semibold text-black dark:text-zinc-50">
+                      Event Payloads
+                    </h2>
+                    {dryRunResult.totalEvents > dryRunResult.payloads.length && (
+                      <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+                        Showing the first {dryRunResult.payloads.length} of {dryRunResult.totalEvents} events
+                      </p>
+                    )}
+                  </div>
+                  <div className="max-h-96 overflow-auto">
+                    <table className="w-full text-sm">
+                      <thead className="sticky top-0 bg-zinc-50 dark:bg-zinc-800">
+                        <tr>
+                          {["Email", "Contact", "Event", "Created At", "Metadata"].map((heading) => (
+                            <th
+                              key={heading}
+                              className="border-b border-zinc-200 px-3 py-2 text-left font-medium text-zinc-700 dark:border-zinc-700 dark:text-zinc-300"
+                            >
+                              {heading}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {dryRunResult.payloads.map((payload, index) => (
+                          <tr key={index} className="align-top">
+                            <td className="border-b border-zinc-100 px-3 py-2 font-medium text-black dark:border-zinc-800 dark:text-zinc-50">
+                              {payload.event.email}
+                            </td>
+                            <td className="border-b border-zinc-100 px-3 py-2 text-zinc-600 dark:border-zinc-800 dark:text-zinc-400">
+                              {payload.contact.name || "—"}
+                              {payload.contact.phone && (
+                                <div className="text-xs">{payload.contact.phone}</div>
+                              )}
+                              <div className="text-xs">
+                                {payload.contact.role === "lead" ? "Lead" : "User"}
+                                {payload.contact.external_id && ` · ${payload.contact.external_id}`}
+                              </div>
+                              {payload.company && (
+                                <div className="text-xs">
+                                  Company: {payload.company.name || payload.company.company_id}
+                                </div>
+                              )}
+                              {payload.contact.custom_attributes &&
+                                Object.entries(payload.contact.custom_attributes).map(([key, value]) => (
+                                  <div key={key} className="font-mono text-xs">
+                                    {key}: {String(value)}
+                                  </div>
+                                ))}
+                            </td>
+                            <td className="border-b border-zinc-100 px-3 py-2 dark:border-zinc-800">
+                              <span className="rounded-full bg-zinc-100 px-2 py-0.5 text-xs font-medium text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300">
+                                {payload.event.event_name}
+                              </span>
+                              {payload.tag && (
+                                <div className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                                  Tag: {payload.tag}
+                                </div>
+                              )}
+                            </td>
+                            <td className="border-b border-zinc-100 px-3 py-2 text-zinc-600 dark:border-zinc-800 dark:text-zinc-400">
+                              {new Date(payload.event.created_at * 1000).toISOString()}
+                              <div className="font-mono text-xs">{payload.event.created_at}</div>
+                            </td>
+                            <td className="border-b border-zinc-100 px-3 py-2 font-mono text-xs text-zinc-600 dark:border-zinc-800 dark:text-zinc-400">
+                              {payload.event.metadata
+                                ? Object.entries(payload.event.metadata).map(([key, value]) => (
+                                  <div key={key}>
+                                    {key}: {value}
+                                  </div>
+                                ))
+                                : "—"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {/* Skipped Rows */}
+              {dryRunResult.skipped.length > 0 && (
+                <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 dark:border-yellow-800 dark:bg-yellow-900/20">
+                  <h3 className="mb-2 text-sm font-semibold text-yellow-800 dark:text-yellow-400">
+                    Skipped Rows
+                  </h3>
+                  <ul className="list-disc space-y-1 pl-5 text-sm text-yellow-700 dark:text-yellow-300">
+                    {dryRunResult.skipped.map((skippedRow, index) => (
+                      <li key={index}>
+                        {skippedRow.file ? `${skippedRow.file} row` : "Row"} {skippedRow.row}
+                        {skippedRow.email ? ` (${skippedRow.email})` : ""}: {skippedRow.reason}
+                      </li>
+                    ))}
+                  </ul>
+                  {dryRunResult.skippedCount > dryRunResult.skipped.length && (
+                    <p className="mt-2 text-sm text-yellow-700 dark:text-yellow-300">
+                      {dryRunResult.skippedCount - dryRunResult.skipped.length} more not listed
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="flex gap-4">
+                <button
+                  onClick={handleProcess}
+                  disabled={dryRunResult.totalEvents === 0 || validationBlocked}
+                  className="rounded-full bg-black px-6 py-2 text-sm font-medium text-white transition-colors hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-white dark:text-black dark:hover:bg-zinc-200"
+                >
+                  {testMode ? "Test Mode: Process" : "Process & Upload"}
+                </button>
+                <button
+                  onClick={() => setCurrentStep("mapping")}
+                  className="rounded-full border border-zinc-300 bg-white px-6 py-2 text-sm font-medium text-zinc-700 transition-colors hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                >
+                  Back to Mapping
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Loading Preview */}
           {loadingPreview && (
             <div className="mb-6 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-800 dark:bg-zinc-800/50">
@@ -689,15 +1627,21 @@ export default function Home() {
                   <p className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
                     Processing CSV and publishing events to Intercom...
                   </p>
+                  {streamingStats.retries > 0 && (
+                    <span className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300">
+                      {streamingStats.retries} retried {streamingStats.retries === 1 ? "request" : "requests"}
+                    </span>
+                  )}
                 </div>
                 {streamingStats.total > 0 && (
-                  <div className="mt-3 grid grid-cols-3 gap-4">
+                  <div className="mt-3 grid grid-cols-4 gap-4">
                     <div>
                       <p className="text-xs text-zinc-600 dark:text-zinc-400">
                         Progress
                       </p>
                       <p className="text-sm font-semibold text-zinc-700 dark:text-zinc-300">
                         {streamingResults.length} / {streamingStats.total}
+                        {streamingStats.reading ? "+ (reading rows)" : ""}
                       </p>
                     </div>
                     <div>
@@ -716,6 +1660,14 @@ export default function Home() {
                         {streamingStats.failed}
                       </p>
                     </div>
+                    <div>
+                      <p className="text-xs text-zinc-600 dark:text-zinc-400">
+                        Already Published
+                      </p>
+                      <p className="text-sm font-semibold text-zinc-500 dark:text-zinc-400">
+                        {streamingStats.alreadyPublished}
+                      </p>
+                    </div>
                   </div>
                 )}
               </div>
@@ -748,12 +1700,27 @@ export default function Home() {
                               <span className="rounded-full bg-zinc-100 px-2 py-0.5 text-xs font-medium text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300">
                                 {result.eventType}
                               </span>
+                              {result.retries ? (
+                                <span className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300">
+                                  {result.retries} {result.retries === 1 ? "retry" : "retries"}
+                                </span>
+                              ) : null}
                             </div>
                             {result.error && (
                               <p className="mt-1 text-sm text-red-600 dark:text-red-400">
                                 {result.error}
                               </p>
                             )}
+                            {result.companyError && (
+                              <p className="mt-1 text-sm text-orange-600 dark:text-orange-400">
+                                {result.companyError}
+                              </p>
+                            )}
+                            {result.tagError && (
+                              <p className="mt-1 text-sm text-orange-600 dark:text-orange-400">
+                                {result.tagError}
+                              </p>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -771,7 +1738,7 @@ export default function Home() {
                 <h2 className="mb-4 text-xl font-semibold text-black dark:text-zinc-50">
                   Upload Summary
                 </h2>
-                <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
                   <div>
                     <p className="text-sm text-zinc-600 dark:text-zinc-400">
                       Total Processed
@@ -796,11 +1763,108 @@ export default function Home() {
                       {results.failed}
                     </p>
                   </div>
+                  <div>
+                    <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                      Already Published
+                    </p>
+                    <p className="text-2xl font-bold text-zinc-500 dark:text-zinc-400">
+                      {results.alreadyPublished || 0}
+                    </p>
+                  </div>
                 </div>
               </div>
 
-              {/* Results List */}
+              {/* Results by Event */}
               {results.results && results.results.length > 0 && (
+                <div className="rounded-lg border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+                  <div className="border-b border-zinc-200 px-6 py-4 dark:border-zinc-800">
+                    <h2 className="text-lg font-semibold text-black dark:text-zinc-50">
+                      By Event
+                    </h2>
+                  </div>
+                  <table className="w-full text-sm">
+                    <thead className="bg-zinc-50 dark:bg-zinc-800">
+                      <tr>
+                        {["Event", "Event Type", "Successful", "Failed", "Already Published"].map((heading) => (
+                          <th
+                            key={heading}
+                            className="border-b border-zinc-200 px-6 py-2 text-left font-medium text-zinc-700 dark:border-zinc-700 dark:text-zinc-300"
+                          >
+                            {heading}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {groupResultsByEvent(results.results).map((counts) => (
+                        <tr key={`${counts.event}-${counts.eventType}`}>
+                          <td className="border-b border-zinc-100 px-6 py-2 text-black dark:border-zinc-800 dark:text-zinc-50">
+                            {counts.event || "—"}
+                          </td>
+                          <td className="border-b border-zinc-100 px-6 py-2 font-mono text-xs text-black dark:border-zinc-800 dark:text-zinc-50">
+                            {counts.eventType}
+                          </td>
+                          <td className="border-b border-zinc-100 px-6 py-2 text-green-600 dark:border-zinc-800 dark:text-green-400">
+                            {counts.successful}
+                          </td>
+                          <td className="border-b border-zinc-100 px-6 py-2 text-red-600 dark:border-zinc-800 dark:text-red-400">
+                            {counts.failed}
+                          </td>
+                          <td className="border-b border-zinc-100 px-6 py-2 text-zinc-500 dark:border-zinc-800 dark:text-zinc-400">
+                            {counts.alreadyPublished}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* Results by File */}
+              {results.results && groupResultsByFile(results.results).length > 1 && (
+                <div className="rounded-lg border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+                  <div className="border-b border-zinc-200 px-6 py-4 dark:border-zinc-800">
+                    <h2 className="text-lg font-semibold text-black dark:text-zinc-50">
+                      By File
+                    </h2>
+                  </div>
+                  <table className="w-full text-sm">
+                    <thead className="bg-zinc-50 dark:bg-zinc-800">
+                      <tr>
+                        {["File", "Successful", "Failed", "Already Published"].map((heading) => (
+                          <th
+                            key={heading}
+                            className="border-b border-zinc-200 px-6 py-2 text-left font-medium text-zinc-700 dark:border-zinc-700 dark:text-zinc-300"
+                          >
+                            {heading}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {groupResultsByFile(results.results).map((counts) => (
+                        <tr key={counts.file}>
+                          <td className="border-b border-zinc-100 px-6 py-2 text-black dark:border-zinc-800 dark:text-zinc-50">
+                            {counts.file || "—"}
+                          </td>
+                          <td className="border-b border-zinc-100 px-6 py-2 text-green-600 dark:border-zinc-800 dark:text-green-400">
+                            {counts.successful}
+                          </td>
+                          <td className="border-b border-zinc-100 px-6 py-2 text-red-600 dark:border-zinc-800 dark:text-red-400">
+                            {counts.failed}
+                          </td>
+                          <td className="border-b border-zinc-100 px-6 py-2 text-zinc-500 dark:border-zinc-800 dark:text-zinc-400">
+                            {counts.alreadyPublished}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* Results List */}
+              {results.results && results.results.some((result) => !result.alreadyPublished) && (
                 <div className="rounded-lg border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
                   <div className="border-b border-zinc-200 px-6 py-4 dark:border-zinc-800">
                     <h2 className="text-lg font-semibold text-black dark:text-zinc-50">
@@ -808,7 +1872,7 @@ export default function Home() {
                     </h2>
                   </div>
                   <div className="max-h-96 overflow-y-auto">
-                    {results.results.map((result, index) => (
+                    {results.results.filter((result) => !result.alreadyPublished).map((result, index) => (
                       <div
                         key={index}
                         className="border-b border-zinc-100 px-6 py-3 last:border-b-0 dark:border-zinc-800"
@@ -827,12 +1891,27 @@ export default function Home() {
                               <span className="rounded-full bg-zinc-100 px-2 py-0.5 text-xs font-medium text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300">
                                 {result.eventType}
                               </span>
+                              {result.retries ? (
+                                <span className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300">
+                                  {result.retries} {result.retries === 1 ? "retry" : "retries"}
+                                </span>
+                              ) : null}
                             </div>
                             {result.error && (
                               <p className="mt-1 text-sm text-red-600 dark:text-red-400">
                                 {result.error}
                               </p>
                             )}
+                            {result.companyError && (
+                              <p className="mt-1 text-sm text-orange-600 dark:text-orange-400">
+                                {result.companyError}
+                              </p>
+                            )}
+                            {result.tagError && (
+                              <p className="mt-1 text-sm text-orange-600 dark:text-orange-400">
+                                {result.tagError}
+                              </p>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -841,6 +1920,54 @@ export default function Home() {
                 </div>
               )}
 
+              {/* Already Published (skipped by the publish ledger) */}
+              {results.alreadyPublished ? (
+                <div className="rounded-lg border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+                  <div className="border-b border-zinc-200 px-6 py-4 dark:border-zinc-800">
+                    <h2 className="text-lg font-semibold text-black dark:text-zinc-50">
+                      Already Published
+                    </h2>
+                    <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+                      These events were sent in a previous run and were not published again.
+                    </p>
+                  </div>
+                  <div className="max-h-64 overflow-y-auto">
+                    {results.results.filter((result) => result.alreadyPublished).map((result, index) => (
+                      <div
+                        key={index}
+                        className="flex items-center gap-2 border-b border-zinc-100 px-6 py-2 last:border-b-0 dark:border-zinc-800"
+                      >
+                        <span className={`font-bold ${getResultStatusColor(result)}`}>
+                          {getResultStatusIcon(result)}
+                        </span>
+                        <span className="text-sm text-zinc-700 dark:text-zinc-300">
+                          {result.email}
+                        </span>
+                        <span className="rounded-full bg-zinc-100 px-2 py-0.5 text-xs font-medium text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300">
+                          {result.eventType}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
+
+              {/* Tagging failures (the events themselves may have been published) */}
+              {results.tagFailed ? (
+                <div className="rounded-lg border border-orange-200 bg-orange-50 p-4 dark:border-orange-800 dark:bg-orange-900/20">
+                  <h3 className="mb-2 text-sm font-semibold text-orange-800 dark:text-orange-400">
+                    {results.tagFailed} {results.tagFailed === 1 ? "contact" : "contacts"} could not be tagged
+                  </h3>
+                  <ul className="max-h-48 list-disc space-y-1 overflow-y-auto pl-5 text-sm text-orange-700 dark:text-orange-300">
+                    {results.results.filter((result) => result.tagError).map((result, index) => (
+                      <li key={index}>
+                        {result.email}: {result.tagError}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+
               {/* Errors from CSV parsing */}
               {results.errors && results.errors.length > 0 && (
                 <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 dark:border-yellow-800 dark:bg-yellow-900/20">
@@ -852,11 +1979,36 @@ export default function Home() {
                       <li key={index}>{err}</li>
                     ))}
                   </ul>
+                  {results.errorCount && results.errorCount > results.errors.length ? (
+                    <p className="mt-2 text-sm text-yellow-700 dark:text-yellow-300">
+                      {results.errorCount - results.errors.length} more in the run report
+                    </p>
+                  ) : null}
+                </div>
+              )}
+
+              {/* Retry Failed Events */}
+              {jobId && results.failed > 0 && (
+                <div className="rounded-lg border border-red-200 bg-red-50 p-6 dark:border-red-800 dark:bg-red-900/20">
+                  <h3 className="mb-2 text-lg font-semibold text-red-800 dark:text-red-400">
+                    {results.failed} {results.failed === 1 ? "event" : "events"} failed
+                  </h3>
+                  <p className="mb-4 text-sm text-red-700 dark:text-red-300">
+                    Re-publish only the failed events with the same mapping, event
+                    settings and {wasTestMode ? "test" : "production"} mode. Successful
+                    events are not sent again.
+                  </p>
+                  <button
+                    onClick={handleRetryFailed}
+                    className="rounded-full bg-red-600 px-6 py-3 text-sm font-medium text-white transition-colors hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-600"
+                  >
+                    Retry Failed
+                  </button>
                 </div>
               )}
 
               {/* Test Mode Success - Run in Production Button */}
-              {wasTestMode && results.success && results.successful > 0 && (
+              {wasTestMode && files.length > 0 && results.success && results.successful > 0 && (
                 <div className="rounded-lg border border-green-200 bg-green-50 p-6 dark:border-green-800 dark:bg-green-900/20">
                   <h3 className="mb-2 text-lg font-semibold text-green-800 dark:text-green-400">
                     ✓ Test Mode Successful
@@ -866,13 +2018,43 @@ export default function Home() {
                   </p>
                   <button
                     onClick={handleRunInProduction}
-                    className="rounded-full bg-green-600 px-6 py-3 text-sm font-medium text-white transition-colors hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600"
+                    disabled={validationBlocked}
+                    className="rounded-full bg-green-600 px-6 py-3 text-sm font-medium text-white transition-colors hover:bg-green-700 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-green-500 dark:hover:bg-green-600"
                   >
                     Run in Production
                   </button>
                 </div>
               )}
 
+              {/* Run Report Downloads */}
+              {jobId && (
+                <div className="rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-800 dark:bg-zinc-800/50">
+                  <h3 className="mb-1 text-sm font-semibold text-black dark:text-zinc-50">
+                    Run Report
+                  </h3>
+                  <p className="mb-3 text-xs text-zinc-600 dark:text-zinc-400">
+                    Results, CSV row errors, event settings, mapping, mode, timestamps
+                    and Intercom request IDs for failures.
+                  </p>
+                  <div className="flex gap-3">
+                    <a
+                      href={`/api/jobs/${jobId}/report?format=csv`}
+                      download
+                      className="rounded-full border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 transition-colors hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                    >
+                      Download CSV
+                    </a>
+                    <a
+                      href={`/api/jobs/${jobId}/report?format=json`}
+                      download
+                      className="rounded-full border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-700 transition-colors hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                    >
+                      Download JSON
+                    </a>
+                  </div>
+                </div>
+              )}
+
               {/* Reset Button */}
               <button
                 onClick={handleReset}
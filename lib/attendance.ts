@@ -0,0 +1,139 @@
+/**
+ * Attendance duration from join/leave times or duration columns, and the
+ * threshold an attendee has to reach to count as attended
+ */
+
+import type { AttendanceSession, ColumnMapping, EventSettings } from "./types";
+import { parseDateTime } from "./dates";
+
+// Metadata key the total minutes are published under on the attendance event
+export const ATTENDANCE_MINUTES_METADATA_KEY = "attendance_minutes";
+
+/**
+ * Whether the mapping has any column describing how long someone attended
+ */
+export function hasAttendanceDurationColumns(mapping: ColumnMapping): boolean {
+  return !!(mapping.joinTime || mapping.leaveTime || mapping.duration);
+}
+
+/**
+ * Read one attendance session from a CSV row; null when the row has no usable times
+ */
+export function parseAttendanceSession(
+  row: Record<string, string>,
+  mapping: ColumnMapping,
+  timezone?: string
+): AttendanceSession | null {
+  const joinTime = mapping.joinTime
+    ? parseDateTime(row[mapping.joinTime] || "", timezone)
+    : undefined;
+  const leaveTime = mapping.leaveTime
+    ? parseDateTime(row[mapping.leaveTime] || "", timezone)
+    : undefined;
+
+  let minutes: number | undefined;
+  if (mapping.duration) {
+    const parsed = parseFloat((row[mapping.duration] || "").replace(/,/g, ""));
+    minutes = isNaN(parsed) || parsed < 0 ? undefined : parsed;
+  }
+
+  if (joinTime === undefined && leaveTime === undefined && minutes === undefined) {
+    return null;
+  }
+  return { joinTime, leaveTime, minutes };
+}
+
+/**
+ * Total minutes across sessions. Overlapping join/leave intervals (someone
+ * joined from two devices) are counted once; sessions without both times
+ * fall back to their duration.
+ */
+export function getAttendanceMinutes(sessions: AttendanceSession[]): number {
+  const intervals: Array<[number, number]> = [];
+  let durationMinutes = 0;
+
+  for (const session of sessions) {
+    if (
+      session.joinTime !== undefined &&
+      session.leaveTime !== undefined &&
+      session.leaveTime >= session.joinTime
+    ) {
+      intervals.push([session.joinTime, session.leaveTime]);
+    } else if (session.minutes !== undefined) {
+      durationMinutes += session.minutes;
+    }
+  }
+
+  intervals.sort((a, b) => a[0] - b[0]);
+  let intervalMs = 0;
+  let current: [number, number] | null = null;
+  for (const interval of intervals) {
+    if (current && interval[0] <= current[1]) {
+      current[1] = Math.max(current[1], interval[1]);
+      continue;
+    }
+    if (current) {
+      intervalMs += current[1] - current[0];
+    }
+    current = [...interval];
+  }
+  if (current) {
+    intervalMs += current[1] - current[0];
+  }
+
+  return Math.round(intervalMs / 60000 + durationMinutes);
+}
+
+/**
+ * Earliest join time across sessions, used as the attendance date when none is mapped
+ */
+export function getFirstJoinTime(sessions: AttendanceSession[]): number | undefined {
+  const joinTimes = sessions
+    .map((session) => session.joinTime)
+    .filter((time): time is number => time !== undefined);
+  return joinTimes.length > 0 ? Math.min(...joinTimes) : undefined;
+}
+
+/**
+ * Minimum minutes attended to count as attended. Without a threshold any
+ * time at all counts.
+ */
+export function resolveMinAttendanceMinutes(eventSettings?: EventSettings): number {
+  const threshold = eventSettings?.minAttendance || 0;
+  if (eventSettings?.minAttendanceUnit === "percent") {
+    return ((eventSettings.eventDurationMinutes || 0) * threshold) / 100;
+  }
+  return threshold;
+}
+
+/**
+ * Whether the minutes attended reach the configured threshold
+ */
+export function meetsAttendanceThreshold(minutes: number, eventSettings?: EventSettings): boolean {
+  return minutes > 0 && minutes >= resolveMinAttendanceMinutes(eventSettings);
+}
+
+/**
+ * Validate the attendance threshold settings, returning a list of error messages
+ */
+export function validateAttendanceSettings(eventSettings?: EventSettings): string[] {
+  const errors: string[] = [];
+  const { minAttendance, minAttendanceUnit, eventDurationMinutes } = eventSettings || {};
+
+  if (minAttendanceUnit && !["minutes", "percent"].includes(minAttendanceUnit)) {
+    errors.push('Attendance threshold unit must be "minutes" or "percent"');
+  }
+  if (minAttendance !== undefined && (typeof minAttendance !== "number" || minAttendance < 0)) {
+    errors.push("Attendance threshold must be a number of zero or more");
+  }
+  if (minAttendanceUnit === "percent" && minAttendance) {
+    if (minAttendance > 100) {
+      errors.push("Attendance threshold cannot be more than 100%");
+    }
+    if (!eventDurationMinutes || eventDurationMinutes <= 0) {
+      errors.push("Event duration (minutes) is required for a percentage attendance threshold");
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,126 @@
+/**
+ * Contact custom attributes mapped from CSV columns
+ */
+
+import type {
+  ColumnMapping,
+  ContactAttributeValue,
+  CustomAttributeMapping,
+} from "./types";
+import { parseDateTime } from "./dates";
+
+// Standard contact fields that cannot be used as custom attribute names
+const RESERVED_ATTRIBUTE_NAMES = [
+  "email",
+  "name",
+  "phone",
+  "role",
+  "external_id",
+  "avatar",
+  "signed_up_at",
+  "last_seen_at",
+  "owner_id",
+  "unsubscribed_from_emails",
+];
+
+const ATTRIBUTE_TYPES: CustomAttributeMapping["type"][] = ["string", "number", "boolean", "date"];
+
+const TRUE_VALUES = ["true", "1", "yes", "y"];
+const FALSE_VALUES = ["false", "0", "no", "n"];
+
+/**
+ * Validate the custom attribute mappings, returning a list of error messages
+ */
+export function validateCustomAttributeMappings(mapping: ColumnMapping): string[] {
+  const customAttributes = mapping.customAttributes || [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  for (const customAttribute of customAttributes) {
+    // Mappings sent to the API may be missing fields the UI always fills in
+    const name = typeof customAttribute.attribute === "string" ? customAttribute.attribute.trim() : "";
+
+    if (!customAttribute.column) {
+      errors.push(`Custom attribute "${name}" needs a CSV column`);
+    }
+    if (!name) {
+      errors.push("Custom attributes need a name");
+      continue;
+    }
+    if (!ATTRIBUTE_TYPES.includes(customAttribute.type)) {
+      errors.push(`Custom attribute "${name}" must be a string, number, boolean or date`);
+    }
+    if (/[.$]/.test(name)) {
+      errors.push(`Custom attribute "${name}" cannot contain "." or "$"`);
+    }
+    if (RESERVED_ATTRIBUTE_NAMES.includes(name.toLowerCase())) {
+      errors.push(`"${name}" is a standard contact field, not a custom attribute`);
+    }
+    if (seen.has(name)) {
+      errors.push(`Custom attribute "${name}" is mapped more than once`);
+    }
+    seen.add(name);
+  }
+
+  return errors;
+}
+
+/**
+ * Convert a CSV value to the attribute's type. Dates become unix timestamps,
+ * read in the event timezone when they have no offset.
+ * Returns null when the value cannot be converted.
+ */
+export function coerceAttributeValue(
+  value: string,
+  type: CustomAttributeMapping["type"],
+  timezone?: string
+): ContactAttributeValue | null {
+  switch (type) {
+    case "number": {
+      const parsed = Number(value.replace(/,/g, ""));
+      return Number.isFinite(parsed) ? parsed : null;
+    }
+    case "boolean": {
+      const normalized = value.toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return true;
+      if (FALSE_VALUES.includes(normalized)) return false;
+      return null;
+    }
+    case "date": {
+      const parsed = parseDateTime(value, timezone);
+      return parsed === undefined ? null : Math.floor(parsed / 1000);
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Read the mapped custom attributes from a CSV row.
+ * Values that cannot be converted are skipped and reported through `onInvalid`.
+ */
+export function extractCustomAttributes(
+  row: Record<string, string>,
+  mapping: ColumnMapping,
+  timezone?: string,
+  onInvalid?: (attribute: string, value: string, type: CustomAttributeMapping["type"]) => void
+): Record<string, ContactAttributeValue> {
+  const attributes: Record<string, ContactAttributeValue> = {};
+
+  for (const customAttribute of mapping.customAttributes || []) {
+    const value = (row[customAttribute.column] || "").trim();
+    if (!value) {
+      continue;
+    }
+
+    const coerced = coerceAttributeValue(value, customAttribute.type, timezone);
+    if (coerced === null) {
+      onInvalid?.(customAttribute.attribute, value, customAttribute.type);
+      continue;
+    }
+
+    attributes[customAttribute.attribute.trim()] = coerced;
+  }
+
+  return attributes;
+}
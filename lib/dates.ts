@@ -0,0 +1,299 @@
+/**
+ * Date parsing for CSV timestamps. Only known formats are accepted, and times
+ * without an explicit offset are read in the event's timezone (UTC by
+ * default) rather than the server's.
+ */
+
+import type { ColumnMapping, EventSettings } from "./types";
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+/**
+ * A date as written in the CSV. The offset is only set when the value names
+ * one (ISO offsets, Z, GMT or unix timestamps).
+ */
+export interface DateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  offsetMinutes?: number;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// 2025-01-10, 2025-01-10 18:00, 2025-01-10T18:00:00.000Z, 2025-01-10 18:00:00-08:00
+const ISO_PATTERN =
+  /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s]+(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+// 01/10/2025, 1/10/25 6:00 PM, 01/10/2025 18:02:11 (month first, as US exports write it)
+const US_PATTERN =
+  /^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})(?:,?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AP]\.?M\.?)?)?$/i;
+
+// Jan 10, 2025 06:02:11 PM, Friday, January 10, 2025 at 6:00 PM
+const MONTH_NAME_PATTERN =
+  /^(?:[a-z]+,?\s+)?([a-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})(?:(?:,|\s+at)?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AP]\.?M\.?)?)?$/i;
+
+// Values other parsers may read, as long as they say which zone they are in
+const EXPLICIT_ZONE_PATTERN = /(?:\bZ|\bGMT|\bUTC|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Convert a 12-hour clock hour to 24-hour; null when the hour is out of range
+ */
+function to24Hour(hour: number, meridiem?: string): number | null {
+  if (!meridiem) {
+    return hour;
+  }
+  if (hour < 1 || hour > 12) {
+    return null;
+  }
+  const pm = meridiem.toLowerCase().startsWith("p");
+  return (hour % 12) + (pm ? 12 : 0);
+}
+
+function fromUtc(time: number): DateParts {
+  const date = new Date(time);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+    millisecond: date.getUTCMilliseconds(),
+    offsetMinutes: 0,
+  };
+}
+
+function parseOffset(offset: string): number {
+  if (offset.toUpperCase() === "Z") {
+    return 0;
+  }
+  const digits = offset.slice(1).replace(":", "");
+  const minutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2));
+  return offset.startsWith("-") ? -minutes : minutes;
+}
+
+/**
+ * Reject dates like February 30th that Date.UTC would quietly roll over
+ */
+function isValidParts(parts: DateParts): boolean {
+  const time = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const date = new Date(time);
+  return (
+    !isNaN(time) &&
+    date.getUTCFullYear() === parts.year &&
+    date.getUTCMonth() === parts.month - 1 &&
+    date.getUTCDate() === parts.day &&
+    date.getUTCHours() === parts.hour &&
+    date.getUTCMinutes() === parts.minute &&
+    date.getUTCSeconds() === parts.second
+  );
+}
+
+/**
+ * Read a CSV date into its parts without applying any timezone.
+ * Returns undefined for formats that aren't recognised.
+ */
+export function parseDateParts(value: string): DateParts | undefined {
+  const trimmed = (value || "").trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  // Unix timestamps, in seconds or milliseconds
+  if (/^\d{10}$/.test(trimmed)) {
+    return fromUtc(Number(trimmed) * 1000);
+  }
+  if (/^\d{13}$/.test(trimmed)) {
+    return fromUtc(Number(trimmed));
+  }
+
+  let parts: DateParts | undefined;
+  let match = ISO_PATTERN.exec(trimmed);
+  if (match) {
+    parts = {
+      year: Number(match[1]),
+      month: Number(match[2]),
+      day: Number(match[3]),
+      hour: Number(match[4] || 0),
+      minute: Number(match[5] || 0),
+      second: Number(match[6] || 0),
+      millisecond: Number((match[7] || "0").slice(0, 3).padEnd(3, "0")),
+      offsetMinutes: match[8] ? parseOffset(match[8]) : undefined,
+    };
+  } else if ((match = US_PATTERN.exec(trimmed))) {
+    const hour = to24Hour(Number(match[4] || 0), match[7]);
+    const year = Number(match[3]);
+    parts =
+      hour === null
+        ? undefined
+        : {
+            year: match[3].length === 2 ? 2000 + year : year,
+            month: Number(match[1]),
+            day: Number(match[2]),
+            hour,
+            minute: Number(match[5] || 0),
+            second: Number(match[6] || 0),
+            millisecond: 0,
+          };
+  } else if ((match = MONTH_NAME_PATTERN.exec(trimmed))) {
+    const month = MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()) + 1;
+    const hour = to24Hour(Number(match[4] || 0), match[7]);
+    parts =
+      month === 0 || hour === null
+        ? undefined
+        : {
+            year: Number(match[3]),
+            month,
+            day: Number(match[2]),
+            hour,
+            minute: Number(match[5] || 0),
+            second: Number(match[6] || 0),
+            millisecond: 0,
+          };
+  } else if (EXPLICIT_ZONE_PATTERN.test(trimmed)) {
+    const time = new Date(trimmed).getTime();
+    return isNaN(time) ? undefined : fromUtc(time);
+  }
+
+  return parts && isValidParts(parts) ? parts : undefined;
+}
+
+/**
+ * Whether a timezone is a name the runtime knows (e.g. "America/New_York")
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in milliseconds
+ */
+function getTimezoneOffset(time: number, timezone: string): number {
+  const formatted = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(time));
+  const part = (type: string) =>
+    Number(formatted.find((formattedPart) => formattedPart.type === type)?.value);
+  const wallTime = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+  return wallTime - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Parse a CSV date to a timestamp in milliseconds. Values without an offset
+ * are read as wall-clock time in the timezone; undefined when the value
+ * isn't a recognised date.
+ */
+export function parseDateTime(value: string, timezone?: string): number | undefined {
+  const parts = parseDateParts(value);
+  if (!parts) {
+    return undefined;
+  }
+
+  const wallTime = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    parts.millisecond
+  );
+  if (parts.offsetMinutes !== undefined) {
+    return wallTime - parts.offsetMinutes * 60000;
+  }
+
+  const zone = timezone || DEFAULT_TIMEZONE;
+  if (zone === DEFAULT_TIMEZONE || !isValidTimezone(zone)) {
+    return wallTime;
+  }
+  // The offset depends on the instant (daylight saving), so check it at the guess
+  const guess = wallTime - getTimezoneOffset(wallTime, zone);
+  return wallTime - getTimezoneOffset(guess, zone);
+}
+
+// Mapped columns whose values become event timestamps, and whether a yes/no
+// value in them says the action happened without saying when
+const DATE_FIELDS: Array<[keyof ColumnMapping, string, boolean]> = [
+  ["registrationDate", "registration date", true],
+  ["attendanceDate", "attendance date", true],
+  ["joinTime", "join time", false],
+  ["leaveTime", "leave time", false],
+];
+
+const TRUE_FLAGS = ["yes", "y", "true"];
+const FALSE_FLAGS = ["no", "n", "false"];
+
+/**
+ * Read a yes/no or true/false value in a registration or attendance date
+ * column, which some exports use to say whether the person registered or
+ * attended. Undefined when the value isn't a flag.
+ */
+export function parseDateFlag(value: string): boolean | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_FLAGS.includes(normalized)) return true;
+  if (FALSE_FLAGS.includes(normalized)) return false;
+  return undefined;
+}
+
+export interface UnparseableDate {
+  column: string;
+  description: string; // Like `registration date "next Tuesday"`
+}
+
+/**
+ * Mapped date values on a row that are neither recognised dates nor
+ * yes/no flags
+ */
+export function findUnparseableDates(
+  row: Record<string, string>,
+  mapping: ColumnMapping
+): UnparseableDate[] {
+  const unparseable: UnparseableDate[] = [];
+  for (const [field, label, allowsFlag] of DATE_FIELDS) {
+    const column = mapping[field];
+    const value = typeof column === "string" ? (row[column] || "").trim() : "";
+    if (!value || parseDateParts(value) || (allowsFlag && parseDateFlag(value) !== undefined)) {
+      continue;
+    }
+    unparseable.push({ column: column as string, description: `${label} "${value}"` });
+  }
+  return unparseable;
+}
+
+/**
+ * Validate the event timezone, returning a list of error messages
+ */
+export function validateTimezone(eventSettings?: EventSettings): string[] {
+  const timezone = eventSettings?.timezone;
+  if (timezone === undefined || timezone === "") {
+    return [];
+  }
+  if (typeof timezone !== "string" || !isValidTimezone(timezone)) {
+    return [`Unknown timezone "${timezone}" (use a name like America/New_York)`];
+  }
+  return [];
+}
@@ -0,0 +1,110 @@
+/**
+ * Merging rows that describe the same person at the same event
+ */
+
+import type { DuplicateRowRule, LumaAttendee } from "./types";
+
+// People kept waiting for later rows; each costs one parsed row's worth of memory
+export const MERGE_WINDOW = 10000;
+
+interface PendingAttendee {
+  attendee: LumaAttendee;
+  row: number;
+}
+
+/**
+ * Rows belong to the same attendee when the email and any per-row event
+ * columns match; emails are already normalized
+ */
+function getAttendeeKey(attendee: LumaAttendee): string {
+  return [attendee.email, attendee.eventName || "", attendee.eventDate || ""].join("|");
+}
+
+/**
+ * Merge a later row's attendee into the one for the same person's first row.
+ * With the "first" rule the first row's values win and later rows fill in
+ * blanks; with "last" later rows override. Joined flags and attendance
+ * sessions are always combined.
+ */
+function mergeAttendee(target: LumaAttendee, attendee: LumaAttendee, rule: DuplicateRowRule): void {
+  const [winner, loser] = rule === "last" ? [attendee, target] : [target, attendee];
+  for (const [field, value] of Object.entries(attendee)) {
+    if (typeof value !== "string" || !value) {
+      continue;
+    }
+    if (rule === "last" || !target[field]) {
+      target[field] = value;
+    }
+  }
+  target.hasJoinedEvent = target.hasJoinedEvent || attendee.hasJoinedEvent;
+  target.registrationMetadata = {
+    ...loser.registrationMetadata,
+    ...winner.registrationMetadata,
+  };
+  target.attendanceMetadata = {
+    ...loser.attendanceMetadata,
+    ...winner.attendanceMetadata,
+  };
+  target.customAttributes = { ...loser.customAttributes, ...winner.customAttributes };
+  if (attendee.attendanceSessions) {
+    target.attendanceSessions = [
+      ...(target.attendanceSessions || []),
+      ...attendee.attendanceSessions,
+    ];
+  }
+}
+
+/**
+ * Merges rows for the same person as they are read, reporting each attendee
+ * under its first row. Attendees wait in a window of the `maxPending` most
+ * recently seen people for later rows to merge into; when the window is full
+ * the person seen longest ago is released. Rows for the same person further
+ * apart than that are released as separate attendees.
+ */
+export function createRowMerger(rule: DuplicateRowRule = "first", maxPending: number = MERGE_WINDOW) {
+  const pending = new Map<string, PendingAttendee>();
+
+  return {
+    /**
+     * Add a row's attendee. Returns the first row of the person it was merged
+     * into, if any, and the attendees released to make room.
+     */
+    add(attendee: LumaAttendee, row: number): { into?: number; released: PendingAttendee[] } {
+      const key = getAttendeeKey(attendee);
+      const existing = pending.get(key);
+      if (existing) {
+        mergeAttendee(existing.attendee, attendee, rule);
+        // Still waiting on later rows: the most recently seen are released last
+        pending.delete(key);
+        pending.set(key, existing);
+        return { into: existing.row, released: [] };
+      }
+
+      pending.set(key, {
+        attendee: {
+          ...attendee,
+          attendanceSessions: attendee.attendanceSessions && [...attendee.attendanceSessions],
+        },
+        row,
+      });
+      const released: PendingAttendee[] = [];
+      for (const [oldestKey, oldest] of pending) {
+        if (pending.size <= maxPending) {
+          break;
+        }
+        pending.delete(oldestKey);
+        released.push(oldest);
+      }
+      return { released };
+    },
+
+    /**
+     * Release every waiting attendee, once the file has no more rows
+     */
+    flush(): PendingAttendee[] {
+      const released = Array.from(pending.values()).sort((a, b) => a.row - b.row);
+      pending.clear();
+      return released;
+    },
+  };
+}
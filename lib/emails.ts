@@ -0,0 +1,120 @@
+/**
+ * Email normalization, validation and the optional checks that flag
+ * addresses worth a second look
+ */
+
+import type { ColumnMapping, DuplicateRowRule, EmailCheck } from "./types";
+
+export const EMAIL_CHECK_LABELS: Record<EmailCheck, string> = {
+  plusAddressing: "Flag plus addresses (jane+events@example.com)",
+  typoDomains: "Flag likely domain typos (gmial.com, hotmial.com...)",
+};
+
+export const DUPLICATE_ROW_RULE_LABELS: Record<DuplicateRowRule, string> = {
+  first: "First row wins; later rows fill in blanks",
+  last: "Last row wins; earlier rows fill in blanks",
+};
+
+// RFC 5322 dot-atom local part, or a quoted string
+const LOCAL_PART_PATTERN =
+  /^(?:[a-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*|"(?:[^"\\\r\n]|\\.)*")$/i;
+// Hostname labels with a letter TLD, or an address literal
+const DOMAIN_PATTERN =
+  /^(?:(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}|\[[0-9a-f:.]+\])$/i;
+const MAX_LOCAL_PART_LENGTH = 64;
+const MAX_EMAIL_LENGTH = 254;
+
+// Misspellings of common mailbox providers and what was probably meant
+const TYPO_DOMAINS: Record<string, string> = {
+  "gmial.com": "gmail.com",
+  "gmai.com": "gmail.com",
+  "gmal.com": "gmail.com",
+  "gamil.com": "gmail.com",
+  "gnail.com": "gmail.com",
+  "gmaill.com": "gmail.com",
+  "gmail.co": "gmail.com",
+  "gmail.con": "gmail.com",
+  "gmail.cm": "gmail.com",
+  "hotmial.com": "hotmail.com",
+  "hotmal.com": "hotmail.com",
+  "hotnail.com": "hotmail.com",
+  "hotmail.co": "hotmail.com",
+  "hotmail.con": "hotmail.com",
+  "yaho.com": "yahoo.com",
+  "yahooo.com": "yahoo.com",
+  "yahoo.con": "yahoo.com",
+  "outlok.com": "outlook.com",
+  "outllook.com": "outlook.com",
+  "outlook.con": "outlook.com",
+  "iclod.com": "icloud.com",
+  "icloud.co": "icloud.com",
+};
+
+/**
+ * Trim, drop a mailto: prefix or angle brackets, and lowercase, so the same
+ * person is matched however their address was typed
+ */
+export function normalizeEmail(value: string): string {
+  return (value || "")
+    .trim()
+    .replace(/^mailto:/i, "")
+    .replace(/^<(.*)>$/, "$1")
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Whether a normalized address is a valid email (RFC 5322 addr-spec, without comments)
+ */
+export function isValidEmail(email: string): boolean {
+  const at = email.lastIndexOf("@");
+  if (at <= 0 || email.length > MAX_EMAIL_LENGTH) {
+    return false;
+  }
+  const localPart = email.slice(0, at);
+  const domain = email.slice(at + 1);
+  return (
+    localPart.length <= MAX_LOCAL_PART_LENGTH &&
+    LOCAL_PART_PATTERN.test(localPart) &&
+    DOMAIN_PATTERN.test(domain)
+  );
+}
+
+/**
+ * Messages for the enabled checks an address trips; the address itself is
+ * never changed
+ */
+export function checkEmail(email: string, checks: EmailCheck[] = []): string[] {
+  const flags: string[] = [];
+  const at = email.lastIndexOf("@");
+  if (checks.includes("plusAddressing") && email.slice(0, at).includes("+")) {
+    flags.push(`${email} is a plus address`);
+  }
+  const suggestion = TYPO_DOMAINS[email.slice(at + 1)];
+  if (checks.includes("typoDomains") && suggestion) {
+    flags.push(`${email} may be a typo for ${suggestion}`);
+  }
+  return flags;
+}
+
+/**
+ * Validate the email checks and duplicate row rule, returning a list of error messages
+ */
+export function validateEmailRules(mapping: ColumnMapping): string[] {
+  const errors: string[] = [];
+  const checks = mapping.emailChecks || [];
+
+  if (!Array.isArray(checks)) {
+    errors.push("Email checks must be a list");
+  } else {
+    const unknown = checks.filter((check) => !(check in EMAIL_CHECK_LABELS));
+    if (unknown.length > 0) {
+      errors.push(`Unknown email checks: ${unknown.join(", ")}`);
+    }
+  }
+  if (mapping.duplicateRowRule && !(mapping.duplicateRowRule in DUPLICATE_ROW_RULE_LABELS)) {
+    errors.push('Duplicate row rule must be "first" or "last"');
+  }
+
+  return errors;
+}
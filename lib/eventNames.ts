@@ -0,0 +1,69 @@
+/**
+ * Intercom event names emitted for each attendee action
+ */
+
+import type { EventSettings } from "./types";
+
+export const DEFAULT_REGISTRATION_EVENT_NAME = "registered-for-event";
+export const DEFAULT_ATTENDANCE_EVENT_NAME = "attended-event";
+
+// Intercom recommends lowercase past-tense names; keep them URL and metadata safe
+const EVENT_NAME_PATTERN = /^[a-z0-9][a-z0-9_.-]*$/;
+const MAX_EVENT_NAME_LENGTH = 255;
+
+export interface ResolvedEventNames {
+  registration: string;
+  attendance: string;
+}
+
+/**
+ * Validate an Intercom event name, returning an error message or null if valid
+ */
+export function validateEventName(name: string): string | null {
+  if (!name) {
+    return "Event name cannot be empty";
+  }
+  if (name.length > MAX_EVENT_NAME_LENGTH) {
+    return `Event name must be at most ${MAX_EVENT_NAME_LENGTH} characters`;
+  }
+  if (!EVENT_NAME_PATTERN.test(name)) {
+    return "Use lowercase letters, numbers, dashes, underscores or periods (e.g. webinar-registered)";
+  }
+  return null;
+}
+
+/**
+ * Resolve the event names for a run, falling back to the defaults
+ */
+export function resolveEventNames(eventSettings?: EventSettings): ResolvedEventNames {
+  return {
+    registration:
+      eventSettings?.registrationEventName?.trim() || DEFAULT_REGISTRATION_EVENT_NAME,
+    attendance:
+      eventSettings?.attendanceEventName?.trim() || DEFAULT_ATTENDANCE_EVENT_NAME,
+  };
+}
+
+/**
+ * Validate the configured event names, returning a list of error messages
+ */
+export function validateEventNames(eventSettings?: EventSettings): string[] {
+  const names = resolveEventNames(eventSettings);
+  const errors: string[] = [];
+
+  const registrationError = validateEventName(names.registration);
+  if (registrationError) {
+    errors.push(`Registration event name: ${registrationError}`);
+  }
+
+  const attendanceError = validateEventName(names.attendance);
+  if (attendanceError) {
+    errors.push(`Attendance event name: ${attendanceError}`);
+  }
+
+  if (names.registration === names.attendance) {
+    errors.push("Registration and attendance event names must be different");
+  }
+
+  return errors;
+}
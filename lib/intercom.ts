@@ -3,7 +3,43 @@
  */
 
 import { IntercomClient, IntercomError } from "intercom-client";
-import type { IntercomEvent, ProcessingResult } from "./types";
+import type {
+  CustomAttributeMapping,
+  IntercomCompanyPayload,
+  IntercomContactPayload,
+  IntercomEvent,
+  IntercomEventPayload,
+  ProcessingResult,
+} from "./types";
+import { flushLedger, getLedgerKey, isAlreadyPublished, recordPublished } from "./ledger";
+import { SDK_REQUEST_OPTIONS, withRetry, type RetryTracker } from "./retry";
+import { createTokenBucket, type TokenBucket } from "./rateLimiter";
+
+// Intercom's default private app limit is 10,000 calls per minute
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 10000;
+const DEFAULT_CONCURRENCY = 5;
+
+export interface PublishOptions {
+  concurrency?: number;
+}
+
+/**
+ * A tag found or created for a run, or why it could not be
+ */
+interface TagLookup {
+  id?: string;
+  error?: string;
+}
+
+/**
+ * Per-run state shared by every `publishEvent` call in a run
+ */
+export interface PublishContext {
+  limiter?: TokenBucket;
+  tags?: Map<string, TagLookup>;
+  // Intercom company IDs by company_id, so each company is created or found once per run
+  companies?: Map<string, Promise<string>>;
+}
 
 // Initialize the Intercom client
 function getIntercomClient(testMode: boolean = false): IntercomClient {
@@ -24,222 +60,728 @@ function getIntercomClient(testMode: boolean = false): IntercomClient {
   return new IntercomClient({ token });
 }
 
+interface WorkspaceInfo {
+  id?: string; // Unset when the workspace could not be identified
+  limiter: TokenBucket;
+}
+
+const workspaces: Partial<Record<"test" | "production", WorkspaceInfo>> = {};
+
 /**
- * Ensure user exists in Intercom before publishing event
+ * Resolve the Intercom workspace for the token in use (cached per mode).
+ * The token bucket is sized from the workspace's X-RateLimit-Limit header
+ * and shared by every run against that workspace. A workspace that could not
+ * be identified is not cached, so the next run tries again.
  */
-async function ensureUserExists(
-  email: string,
-  name: string | undefined,
-  phone: string | undefined,
-  testMode: boolean
-): Promise<void> {
+async function getWorkspace(testMode: boolean): Promise<WorkspaceInfo> {
+  const mode = testMode ? "test" : "production";
+  const cached = workspaces[mode];
+  if (cached) {
+    return cached;
+  }
+
   const client = getIntercomClient(testMode);
+  let id: string | undefined;
+  let rateLimitPerMinute =
+    Number(process.env.INTERCOM_RATE_LIMIT) || DEFAULT_RATE_LIMIT_PER_MINUTE;
 
-  const userData: {
-    email: string;
-    name?: string;
-    phone?: string;
-  } = {
-    email,
+  try {
+    const { data: admin, rawResponse } = await withRetry(() =>
+      client.admins.identify(SDK_REQUEST_OPTIONS).withRawResponse()
+    );
+    id = admin.app?.id_code || undefined;
+    const headerLimit = Number(rawResponse.headers.get("x-ratelimit-limit"));
+    if (!process.env.INTERCOM_RATE_LIMIT && headerLimit > 0) {
+      rateLimitPerMinute = headerLimit;
+    }
+  } catch (error) {
+    console.warn(`Could not identify Intercom workspace: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+
+  // Intercom enforces limits in 10-second windows, so allow bursts of a sixth of the minute
+  const workspace: WorkspaceInfo = {
+    id,
+    limiter: createTokenBucket(
+      rateLimitPerMinute / 60,
+      Math.max(1, Math.floor(rateLimitPerMinute / 6))
+    ),
+  };
+  if (id) {
+    workspaces[mode] = workspace;
+  }
+  return workspace;
+}
+
+/**
+ * Build the contact payload sent when creating a user for an event
+ */
+export function buildContactPayload(event: IntercomEvent): IntercomContactPayload {
+  const userData: IntercomContactPayload = {
+    email: event.email,
+    role: event.role || "user",
   };
 
+  // Add external_id if available and not empty
+  if (event.external_id && event.external_id.trim()) {
+    userData.external_id = event.external_id.trim();
+  }
+
   // Add name if available and not empty
-  if (name && name.trim()) {
-    userData.name = name.trim();
+  if (event.name && event.name.trim()) {
+    userData.name = event.name.trim();
   }
 
   // Add phone if available and not empty
-  if (phone && phone.trim()) {
-    userData.phone = phone.trim();
+  if (event.phone_number && event.phone_number.trim()) {
+    userData.phone = event.phone_number.trim();
+  }
+
+  // Add custom attributes if any were mapped
+  if (event.custom_attributes && Object.keys(event.custom_attributes).length > 0) {
+    userData.custom_attributes = event.custom_attributes;
+  }
+
+  return userData;
+}
+
+/**
+ * Build the company payload for an event's contact. Without a company ID
+ * column the ID is derived from the name, keeping letters and digits in any
+ * script, so the same name always finds the same company.
+ */
+export function buildCompanyPayload(event: IntercomEvent): IntercomCompanyPayload | undefined {
+  const name = event.company_name?.trim();
+  const companyId =
+    event.company_id?.trim() ||
+    name
+      ?.normalize("NFC")
+      .toLowerCase()
+      .replace(/[^\p{L}\p{M}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "");
+
+  if (!companyId) {
+    return undefined;
+  }
+
+  return name ? { company_id: companyId, name } : { company_id: companyId };
+}
+
+/**
+ * Build the event payload sent to Intercom, dropping empty metadata values
+ */
+export function buildEventPayload(event: IntercomEvent): IntercomEventPayload {
+  const eventPayload: IntercomEventPayload = {
+    event_name: event.event_name,
+    created_at: event.created_at,
+    email: event.email,
+  };
+
+  // Filter out undefined values from metadata and convert to Record<string, string>
+  const metadata: Record<string, string> = {};
+  if (event.metadata) {
+    for (const [key, value] of Object.entries(event.metadata)) {
+      if (value !== undefined && value !== null && value !== "") {
+        metadata[key] = value;
+      }
+    }
+  }
+
+  // Only include metadata if it has values
+  if (Object.keys(metadata).length > 0) {
+    eventPayload.metadata = metadata;
   }
 
+  return eventPayload;
+}
+
+const ATTRIBUTE_DATA_TYPES: Record<CustomAttributeMapping["type"], "string" | "float" | "boolean" | "date"> = {
+  string: "string",
+  number: "float",
+  boolean: "boolean",
+  date: "date",
+};
+
+/**
+ * Create any mapped contact custom attributes that don't exist in the workspace yet.
+ * Returns a warning for each attribute that could not be created.
+ */
+export async function ensureContactAttributes(
+  customAttributes: CustomAttributeMapping[],
+  testMode: boolean = false
+): Promise<string[]> {
+  const client = getIntercomClient(testMode);
+  const warnings: string[] = [];
+
   try {
-    // Try to create the contact (user)
-    await client.contacts.create(userData);
+    const existing = await withRetry(() =>
+      client.dataAttributes.list({ model: "contact" }, SDK_REQUEST_OPTIONS)
+    );
+    const existingNames = new Set(existing.data.map((attribute) => attribute.name));
+
+    for (const customAttribute of customAttributes) {
+      const name = customAttribute.attribute.trim();
+      if (existingNames.has(name)) {
+        continue;
+      }
+
+      try {
+        await withRetry(() =>
+          client.dataAttributes.create(
+            {
+              name,
+              model: "contact",
+              data_type: ATTRIBUTE_DATA_TYPES[customAttribute.type],
+            },
+            SDK_REQUEST_OPTIONS
+          )
+        );
+        existingNames.add(name);
+      } catch (error) {
+        warnings.push(`Could not create custom attribute "${name}": ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    }
   } catch (error) {
-    if (error instanceof IntercomError) {
-      // If contact already exists (422 or 409), try to update it with phone/name
-      if (error.statusCode === 422 || error.statusCode === 409) {
-        // Try to find and update the contact
-        try {
-          // Search for contact by email
-          const searchResult = await client.contacts.search({
+    warnings.push(`Could not list custom attributes: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+
+  return warnings;
+}
+
+/**
+ * Find an existing contact, searching by external_id first and falling back to email.
+ * When several contacts share an email, one with the requested role is preferred.
+ */
+async function findContact(
+  userData: IntercomContactPayload,
+  testMode: boolean,
+  tracker: RetryTracker
+): Promise<{ id: string; external_id?: string | null; name?: string | null } | undefined> {
+  const client = getIntercomClient(testMode);
+  const lookups: Array<{ field: string; value: string }> = [];
+
+  if (userData.external_id) {
+    lookups.push({ field: "external_id", value: userData.external_id });
+  }
+  lookups.push({ field: "email", value: userData.email });
+
+  for (const lookup of lookups) {
+    const searchResult = await withRetry(
+      () =>
+        client.contacts.search(
+          {
             query: {
               operator: "AND",
               value: [
                 {
-                  field: "email",
+                  field: lookup.field,
                   operator: "=",
-                  value: email,
+                  value: lookup.value,
                 },
               ],
             },
-          });
-
-          if (searchResult.data && searchResult.data.length > 0) {
-            const contact = searchResult.data[0];
-            // Update contact with phone and name if provided
-            const updateData: {
-              contact_id: string;
-              phone?: string;
-              name?: string;
-            } = {
-              contact_id: contact.id,
-            };
-
-            if (phone && phone.trim()) {
-              updateData.phone = phone.trim();
-            }
-
-            if (name && name.trim()) {
-              updateData.name = name.trim();
-            }
-
-            // Only update if we have data to update
-            if (Object.keys(updateData).length > 1) {
-              await client.contacts.update(updateData);
-            }
-          }
-        } catch (updateError) {
-          // Update failed, but contact exists so we can proceed
-          console.warn(`Could not update contact ${email} with phone/name: ${updateError instanceof Error ? updateError.message : "Unknown error"}`);
-        }
-        return; // Contact exists, we can proceed with event
+          },
+          SDK_REQUEST_OPTIONS
+        ),
+      tracker
+    );
+
+    const contacts = searchResult.data || [];
+    const contact =
+      contacts.find((candidate) => candidate.role === (userData.role || "user")) ||
+      contacts[0];
+    if (contact) {
+      return contact;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Ensure user exists in Intercom before publishing event.
+ * An existing contact (found by external_id, then email) is updated with the
+ * row's details; otherwise a contact is created with the requested role.
+ * Returns the contact's ID, or undefined when it could not be resolved.
+ */
+async function ensureUserExists(
+  userData: IntercomContactPayload,
+  testMode: boolean,
+  tracker: RetryTracker,
+  keepExistingName = false
+): Promise<string | undefined> {
+  const client = getIntercomClient(testMode);
+  const { email, name, phone, custom_attributes, external_id } = userData;
+
+  let contact: { id: string; external_id?: string | null; name?: string | null } | undefined;
+  try {
+    contact = await findContact(userData, testMode, tracker);
+  } catch (error) {
+    // Search failed; creating the contact below still works for new contacts
+    console.warn(`Could not search for contact ${email}: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+
+  if (!contact) {
+    try {
+      // Create the contact (user or lead)
+      const created = await withRetry(
+        () => client.contacts.create(userData, SDK_REQUEST_OPTIONS),
+        tracker
+      );
+      return created.id;
+    } catch (error) {
+      // Search results lag behind writes; a conflict names the contact that already exists
+      const existingId =
+        error instanceof IntercomError && error.statusCode === 409
+          ? /id=([0-9a-f]+)/i.exec(describeError(error).message)?.[1]
+          : undefined;
+      if (existingId) {
+        return existingId;
       }
-      // For other errors, log but don't throw - events might still work
-      console.warn(`Could not create contact ${email}: ${error.message}`);
+
+      // For other errors, log but don't throw - events might still work by email
+      console.warn(`Could not create contact ${email}: ${error instanceof Error ? error.message : "Unknown error"}`);
+      return undefined;
     }
-    // For non-Intercom errors, silently continue - events might still work
+  }
+
+  // Update contact with phone, name, custom attributes and external_id if provided
+  const updateData: {
+    contact_id: string;
+    phone?: string;
+    name?: string;
+    custom_attributes?: IntercomContactPayload["custom_attributes"];
+    external_id?: string;
+  } = {
+    contact_id: contact.id,
+  };
+
+  if (phone) {
+    updateData.phone = phone;
+  }
+
+  if (name && !(keepExistingName && contact.name)) {
+    updateData.name = name;
+  }
+
+  if (custom_attributes) {
+    updateData.custom_attributes = custom_attributes;
+  }
+
+  // Link a contact found by email to our external_id, never overwrite one it already has
+  if (external_id && !contact.external_id) {
+    updateData.external_id = external_id;
+  }
+
+  // Only update if we have data to update
+  if (Object.keys(updateData).length > 1) {
+    try {
+      await withRetry(
+        () => client.contacts.update(updateData, SDK_REQUEST_OPTIONS),
+        tracker
+      );
+    } catch (updateError) {
+      // Update failed, but contact exists so we can proceed
+      console.warn(`Could not update contact ${email} with phone/name/attributes: ${updateError instanceof Error ? updateError.message : "Unknown error"}`);
+    }
+  }
+
+  return contact.id;
+}
+
+/**
+ * Describe an Intercom API error, including Intercom's request ID when given
+ */
+function describeError(error: unknown): { message: string; requestId?: string } {
+  if (error instanceof IntercomError) {
+    // Include more detailed error information
+    const errorBody = (error as IntercomError & { body?: { errors?: Array<{ message: string }>; request_id?: string } }).body;
+    const errorDetails = errorBody?.errors
+      ? errorBody.errors.map((e) => e.message).join(", ")
+      : error.message;
+    let message = `Intercom API error (${error.statusCode}): ${errorDetails}`;
+    if (errorBody?.request_id) {
+      message += ` Request ID: ${errorBody.request_id}`;
+    }
+    return { message, requestId: errorBody?.request_id };
+  }
+  if (error instanceof Error) {
+    return { message: error.message };
+  }
+  return { message: "Unknown error" };
+}
+
+/**
+ * Find or create a tag by name (Intercom creates tags idempotently by name).
+ * A tag that cannot be created maps to an error message instead of an ID.
+ */
+async function findOrCreateTag(
+  tagName: string,
+  testMode: boolean,
+  limiter?: TokenBucket
+): Promise<TagLookup> {
+  const client = getIntercomClient(testMode);
+
+  try {
+    const tag = await withRetry(
+      () => client.tags.create({ name: tagName }, SDK_REQUEST_OPTIONS),
+      { retries: 0, limiter }
+    );
+    return { id: tag.id };
+  } catch (error) {
+    return { error: `Could not create tag "${tagName}": ${describeError(error).message}` };
+  }
+}
+
+/**
+ * Attach a tag to a contact, returning an error message if tagging failed
+ */
+async function tagContact(
+  contactId: string | undefined,
+  tagName: string,
+  tagId: string,
+  testMode: boolean,
+  tracker: RetryTracker
+): Promise<string | undefined> {
+  if (!contactId) {
+    return `Could not tag contact with "${tagName}": contact could not be resolved`;
+  }
+
+  try {
+    const client = getIntercomClient(testMode);
+    await withRetry(
+      () => client.tags.tagContact({ contact_id: contactId, id: tagId }, SDK_REQUEST_OPTIONS),
+      tracker
+    );
+    return undefined;
+  } catch (error) {
+    return `Could not tag contact with "${tagName}": ${describeError(error).message}`;
+  }
+}
+
+/**
+ * Create or find a company and attach the contact to it,
+ * returning an error message if either step failed
+ */
+async function attachCompany(
+  contactId: string | undefined,
+  company: IntercomCompanyPayload,
+  testMode: boolean,
+  tracker: RetryTracker,
+  companies: Map<string, Promise<string>>
+): Promise<string | undefined> {
+  const label = company.name || company.company_id;
+  if (!contactId) {
+    return `Could not attach contact to company "${label}": contact could not be resolved`;
+  }
+
+  const client = getIntercomClient(testMode);
+
+  let companyId = companies.get(company.company_id);
+  if (!companyId) {
+    companyId = withRetry(
+      () => client.companies.createOrUpdate(company, SDK_REQUEST_OPTIONS),
+      tracker
+    ).then((created) => created.id);
+    companies.set(company.company_id, companyId);
+    // Let a later row try again if this one failed
+    companyId.catch(() => companies.delete(company.company_id));
+  }
+
+  try {
+    const id = await companyId;
+    await withRetry(
+      () => client.companies.attachContact({ contact_id: contactId, id }, SDK_REQUEST_OPTIONS),
+      tracker
+    );
+    return undefined;
+  } catch (error) {
+    return `Could not attach contact to company "${label}": ${describeError(error).message}`;
   }
 }
 
 /**
  * Publish an event to Intercom
- * Ensures user exists before publishing the event
+ * Ensures user exists before publishing the event, attaching the contact to
+ * its company and tagging it when the event has a tag. Company and tagging
+ * failures are reported in `companyError` and `tagError` without failing the event.
  */
 export async function publishEvent(
   event: IntercomEvent,
-  testMode: boolean = false
+  testMode: boolean = false,
+  context: PublishContext = {}
 ): Promise<ProcessingResult> {
   const client = getIntercomClient(testMode);
+  const tracker: RetryTracker = { retries: 0, limiter: context.limiter };
+  const tagLookup = event.tag_name ? context.tags?.get(event.tag_name) : undefined;
+  // A tag that could not be created fails tagging for every contact that needed it
+  let tagError = tagLookup?.error;
+  let tag: string | undefined;
+  let companyError: string | undefined;
+  let company: string | undefined;
 
   try {
     // Ensure user exists first - this will create the user if needed
-    await ensureUserExists(event.email, event.name, event.phone_number, testMode);
-
-    // Small delay to ensure user is available for events
-    await new Promise((resolve) => setTimeout(resolve, 200));
-
-    // Build event payload using email (user must exist)
-    const eventPayload: {
-      event_name: string;
-      created_at: number;
-      email: string;
-      metadata?: Record<string, string>;
-    } = {
-      event_name: event.event_name,
-      created_at: event.created_at,
-      email: event.email,
-    };
+    const contactId = await ensureUserExists(
+      buildContactPayload(event),
+      testMode,
+      tracker,
+      event.keep_existing_name
+    );
 
-    // Filter out undefined values from metadata and convert to Record<string, string>
-    const metadata: Record<string, string> = {};
-    if (event.metadata) {
-      for (const [key, value] of Object.entries(event.metadata)) {
-        if (value !== undefined && value !== null && value !== "") {
-          metadata[key] = value;
-        }
-      }
+    const companyPayload = buildCompanyPayload(event);
+    if (companyPayload) {
+      companyError = await attachCompany(
+        contactId,
+        companyPayload,
+        testMode,
+        tracker,
+        context.companies || new Map()
+      );
+      company = companyError ? undefined : companyPayload.name || companyPayload.company_id;
+    } else if (event.company_name?.trim()) {
+      companyError = `Could not make a company ID from "${event.company_name.trim()}"`;
     }
 
-    // Only include metadata if it has values
-    if (Object.keys(metadata).length > 0) {
-      eventPayload.metadata = metadata;
+    if (event.tag_name && tagLookup?.id) {
+      tagError = await tagContact(contactId, event.tag_name, tagLookup.id, testMode, tracker);
+      tag = tagError ? undefined : event.tag_name;
     }
 
+    // Publish against the resolved contact ID, falling back to email if it could not be resolved
+    const { email: _email, ...eventFields } = buildEventPayload(event);
+    const eventPayload = contactId
+      ? { ...eventFields, id: contactId }
+      : buildEventPayload(event);
+
     // Publish the event (user should now exist)
-    await client.events.create(eventPayload);
+    await withRetry(
+      () => client.events.create(eventPayload, SDK_REQUEST_OPTIONS),
+      tracker
+    );
 
     return {
       success: true,
       email: event.email,
-      eventType:
-        event.event_name === "registered-for-event"
-          ? "registered-for-event"
-          : "attended-event",
+      eventType: event.event_name,
+      event: event.metadata?.event_name,
+      file: event.source_file,
+      retries: tracker.retries,
+      processedAt: Math.floor(Date.now() / 1000),
+      company,
+      companyError,
+      tag,
+      tagError,
     };
   } catch (error) {
-    let errorMessage = "Unknown error";
-
-    if (error instanceof IntercomError) {
-      // Include more detailed error information
-      const errorBody = (error as IntercomError & { body?: { errors?: Array<{ message: string }>; request_id?: string } }).body;
-      const errorDetails = errorBody?.errors
-        ? errorBody.errors.map((e) => e.message).join(", ")
-        : error.message;
-      errorMessage = `Intercom API error (${error.statusCode}): ${errorDetails}`;
-      if (errorBody?.request_id) {
-        errorMessage += ` Request ID: ${errorBody.request_id}`;
-      }
-    } else if (error instanceof Error) {
-      errorMessage = error.message;
-    }
+    const { message, requestId } = describeError(error);
 
     return {
       success: false,
       email: event.email,
-      eventType:
-        event.event_name === "registered-for-event"
-          ? "registered-for-event"
-          : "attended-event",
-      error: errorMessage,
+      eventType: event.event_name,
+      event: event.metadata?.event_name,
+      file: event.source_file,
+      retries: tracker.retries,
+      processedAt: Math.floor(Date.now() / 1000),
+      error: message,
+      requestId,
+      company,
+      companyError,
+      tag,
+      tagError,
     };
   }
 }
 
 /**
  * Publish multiple events to Intercom
+ * Results are returned in the same order as the events
  */
 export async function publishEvents(
   events: IntercomEvent[],
-  testMode: boolean = false
+  testMode: boolean = false,
+  options: PublishOptions = {}
 ): Promise<ProcessingResult[]> {
-  const results: ProcessingResult[] = [];
+  const results: ProcessingResult[] = new Array(events.length);
+  const groups = groupEventsByEmail(events);
+  const eventIndexes = groups.flat();
+
+  await publishEventsWithProgress(
+    groups.map((group) => group.map((eventIndex) => events[eventIndex])),
+    (result, _index, position) => {
+      results[eventIndexes[position]] = result;
+    },
+    testMode,
+    options
+  );
 
-  for (const event of events) {
-    const result = await publishEvent(event, testMode);
-    results.push(result);
+  return results;
+}
 
-    // Small delay to avoid rate limiting
-    if (events.length > 1) {
-      await new Promise((resolve) => setTimeout(resolve, 100));
+/**
+ * Group events by email so each contact's events stay in their original order
+ */
+function groupEventsByEmail(events: IntercomEvent[]): number[][] {
+  const groups = new Map<string, number[]>();
+
+  events.forEach((event, eventIndex) => {
+    const key = event.email.trim().toLowerCase();
+    const group = groups.get(key);
+    if (group) {
+      group.push(eventIndex);
+    } else {
+      groups.set(key, [eventIndex]);
     }
-  }
+  });
 
-  return results;
+  return Array.from(groups.values());
 }
 
 /**
- * Publish multiple events to Intercom with progress callback
+ * Publish groups of events to Intercom as they are produced, with progress callback
+ *
+ * Each group holds one contact's events, published in order, so registration
+ * is always published before attendance. Groups are pulled by a pool of
+ * workers sharing the workspace's token bucket, so an async producer is only
+ * read as fast as Intercom accepts events. A group for an email that another
+ * worker is still publishing waits for it. Tags are found or created the
+ * first time an event needs them. `index` counts completed events;
+ * `eventIndex` is the position of the event across all groups.
  */
 export async function publishEventsWithProgress(
-  events: IntercomEvent[],
-  onProgress: (result: ProcessingResult, index: number, total: number) => void,
-  testMode: boolean = false
+  groups: Iterable<IntercomEvent[]> | AsyncIterable<IntercomEvent[]>,
+  onProgress: (
+    result: ProcessingResult,
+    index: number,
+    eventIndex: number
+  ) => void,
+  testMode: boolean = false,
+  options: PublishOptions = {}
 ): Promise<void> {
-  const total = events.length;
+  const workspace = await getWorkspace(testMode);
+  const concurrency = Math.max(
+    1,
+    options.concurrency ||
+      Number(process.env.INTERCOM_CONCURRENCY) ||
+      DEFAULT_CONCURRENCY
+  );
+  const iterator =
+    Symbol.asyncIterator in groups ? groups[Symbol.asyncIterator]() : groups[Symbol.iterator]();
+
+  const tags = new Map<string, TagLookup>();
+  const context: PublishContext = {
+    limiter: workspace.limiter,
+    tags,
+    companies: new Map(),
+  };
+  // Tag lookups under way, and the groups being published by email
+  const tagLookups = new Map<string, Promise<void>>();
+  const contacts = new Map<string, Promise<void>>();
+
+  let nextEventIndex = 0;
+  let completed = 0;
+  let warnedNoLedger = false;
+  let stopped = false;
+
+  const lookUpTag = (tagName: string) => {
+    let lookup = tagLookups.get(tagName);
+    if (!lookup) {
+      lookup = findOrCreateTag(tagName, testMode, workspace.limiter).then((tag) => {
+        tags.set(tagName, tag);
+      });
+      tagLookups.set(tagName, lookup);
+    }
+    return lookup;
+  };
+
+  const publishGroup = async (group: IntercomEvent[], firstEventIndex: number) => {
+    for (const [offset, event] of group.entries()) {
+      const eventIndex = firstEventIndex + offset;
+      const ledgerKey = workspace.id ? getLedgerKey(workspace.id, event) : null;
+
+      // Keys under a guessed workspace, or without an event identity, would match the wrong events
+      if (!ledgerKey && !warnedNoLedger) {
+        warnedNoLedger = true;
+        console.warn(
+          workspace.id
+            ? "Events without an event name, date or source file are published without checking the ledger"
+            : "Intercom workspace unknown, publishing without checking the ledger"
+        );
+      }
+
+      // Skip events already recorded in the ledger for this workspace
+      if (ledgerKey && (await isAlreadyPublished(ledgerKey))) {
+        onProgress(
+          {
+            success: true,
+            email: event.email,
+            eventType: event.event_name,
+            event: event.metadata?.event_name,
+            file: event.source_file,
+            alreadyPublished: true,
+            processedAt: Math.floor(Date.now() / 1000),
+          },
+          ++completed,
+          eventIndex
+        );
+        continue;
+      }
+
+      if (event.tag_name) {
+        await lookUpTag(event.tag_name);
+      }
+      const result = await publishEvent(event, testMode, context);
+
+      if (result.success && ledgerKey) {
+        await recordPublished(ledgerKey);
+      }
 
-  for (let i = 0; i < events.length; i++) {
-    const event = events[i];
-    const result = await publishEvent(event, testMode);
+      // Call progress callback
+      onProgress(result, ++completed, eventIndex);
+    }
+  };
 
-    // Call progress callback
-    onProgress(result, i + 1, total);
+  const worker = async () => {
+    while (!stopped) {
+      const next = await iterator.next();
+      if (next.done) {
+        return;
+      }
+      const group = next.value;
+      const firstEventIndex = nextEventIndex;
+      nextEventIndex += group.length;
+      if (group.length === 0) {
+        continue;
+      }
 
-    // Small delay to avoid rate limiting
-    if (events.length > 1) {
-      await new Promise((resolve) => setTimeout(resolve, 100));
+      // Wait for another worker still publishing this contact's earlier events
+      const email = group[0].email.trim().toLowerCase();
+      const publishing = (contacts.get(email) || Promise.resolve()).then(() =>
+        publishGroup(group, firstEventIndex)
+      );
+      contacts.set(email, publishing);
+      try {
+        await publishing;
+      } finally {
+        if (contacts.get(email) === publishing) {
+          contacts.delete(email);
+        }
+      }
     }
+  };
+
+  try {
+    await Promise.all(
+      Array.from({ length: concurrency }, () =>
+        worker().catch((error) => {
+          // Stop the other workers taking new groups, then fail the run
+          stopped = true;
+          throw error;
+        })
+      )
+    );
+  } finally {
+    await iterator.return?.();
+    await flushLedger();
   }
 }
-
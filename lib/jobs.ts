@@ -0,0 +1,722 @@
+/**
+ * Persisted upload jobs with replayable Server-Sent Event streams
+ *
+ * Every message sent for a job is numbered and appended to the job's message
+ * log on disk, so a client that loses its connection can reattach and replay
+ * from its Last-Event-ID. The events a job publishes and its row errors are
+ * logged the same way; only the job's counters are kept in memory.
+ */
+
+import { createReadStream, promises as fs } from "fs";
+import path from "path";
+import readline from "readline";
+import { randomUUID } from "crypto";
+import type {
+  ColumnMapping,
+  EventSettings,
+  FileEventSettings,
+  IntercomEvent,
+  JobSummary,
+  ProcessingResult,
+  RunReport,
+} from "./types";
+import { ensureContactAttributes, publishEventsWithProgress } from "./intercom";
+import { buildRunReport } from "./report";
+
+export interface JobMessage {
+  id: number;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Server-side job state. Its events, messages and row errors are in logs
+ * next to it, so failed events can be published again without re-uploading
+ * the CSV.
+ */
+interface Job extends JobSummary {
+  errors: string[]; // The first row errors, sent with the completion message
+  errorCount: number;
+  reading?: boolean; // Rows are still being read into events
+}
+
+export interface CreateJobOptions {
+  testMode: boolean;
+  mapping?: ColumnMapping;
+  eventSettings?: EventSettings;
+  fileEventSettings?: FileEventSettings[];
+}
+
+/**
+ * Produces a new job's events while it publishes: each contact's events in
+ * the order they are read, with row problems and attendees reported on the way
+ */
+export type ReadJobEvents = (report: {
+  onError: (message: string) => void;
+  onAttendee: () => void;
+}) => AsyncIterable<IntercomEvent[]>;
+
+type JobListener = (message: JobMessage) => void;
+
+type JobLog = "events" | "messages" | "errors";
+
+const JOBS_DIR =
+  process.env.JOBS_DIR || path.join(process.cwd(), ".data", "jobs");
+
+// Minimum time between disk writes while a job is running
+const PERSIST_INTERVAL_MS = 1000;
+
+// Row errors sent with the completion message; the run report has them all
+const MAX_LISTED_ERRORS = 1000;
+
+// Messages held for a slow event stream before it goes back to the log
+const MAX_LIVE_MESSAGES = 1000;
+
+// Outcome flags of an event, folded from the progress messages of every run
+const REACHED = 1;
+const SUCCEEDED = 2;
+const ALREADY_PUBLISHED = 4;
+const TAG_FAILED = 8;
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
+// Running jobs, and finished ones until their final state is on disk
+const jobs = new Map<string, Job>();
+const listeners = new Map<string, Set<JobListener>>();
+const persistTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const persistWrites = new Map<string, Promise<void>>();
+const logWrites = new Map<string, Promise<void>>();
+
+function getJobPath(jobId: string): string {
+  return path.join(JOBS_DIR, `${jobId}.json`);
+}
+
+function getLogPath(jobId: string, log: JobLog): string {
+  return path.join(JOBS_DIR, `${jobId}.${log}.jsonl`);
+}
+
+/**
+ * Write a job to disk atomically (temp file + rename)
+ */
+async function persistJob(job: Job): Promise<void> {
+  try {
+    await fs.mkdir(JOBS_DIR, { recursive: true });
+    const jobPath = getJobPath(job.id);
+    await fs.writeFile(`${jobPath}.tmp`, JSON.stringify(job), "utf8");
+    await fs.rename(`${jobPath}.tmp`, jobPath);
+  } catch (error) {
+    console.warn(`Could not persist job ${job.id}: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+/**
+ * Persist a job once any write already under way finishes, so an older
+ * snapshot never lands last
+ */
+function queuePersist(job: Job): Promise<void> {
+  const write = (persistWrites.get(job.id) || Promise.resolve()).then(() => persistJob(job));
+  persistWrites.set(job.id, write);
+  void write.then(() => {
+    if (persistWrites.get(job.id) === write) {
+      persistWrites.delete(job.id);
+    }
+  });
+  return write;
+}
+
+/**
+ * Persist a running job at most once per interval. Finished jobs are written
+ * immediately and then dropped from memory; they are read back from disk
+ * when needed.
+ */
+function schedulePersist(job: Job): void {
+  if (job.status !== "running") {
+    const timer = persistTimers.get(job.id);
+    if (timer) {
+      clearTimeout(timer);
+      persistTimers.delete(job.id);
+    }
+    void queuePersist(job).then(() => {
+      if (job.status !== "running" && jobs.get(job.id) === job) {
+        jobs.delete(job.id);
+      }
+    });
+    return;
+  }
+
+  if (!persistTimers.has(job.id)) {
+    persistTimers.set(
+      job.id,
+      setTimeout(() => {
+        persistTimers.delete(job.id);
+        void queuePersist(job);
+      }, PERSIST_INTERVAL_MS)
+    );
+  }
+}
+
+/**
+ * Append values to one of a job's logs, one JSON line each, after any
+ * append already queued for the job
+ */
+function appendLog(jobId: string, log: JobLog, values: unknown[]): Promise<void> {
+  const lines = values.map((value) => `${JSON.stringify(value)}\n`).join("");
+  const write = (logWrites.get(jobId) || Promise.resolve()).then(() =>
+    fs.appendFile(getLogPath(jobId, log), lines, "utf8").catch((error) => {
+      console.warn(`Could not write ${log} log of job ${jobId}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    })
+  );
+  logWrites.set(jobId, write);
+  void write.then(() => {
+    if (logWrites.get(jobId) === write) {
+      logWrites.delete(jobId);
+    }
+  });
+  return write;
+}
+
+/**
+ * Read one of a job's logs line by line, once the appends queued so far are
+ * written. A line cut off by a server stop is skipped.
+ */
+async function* readLog<T>(jobId: string, log: JobLog): AsyncGenerator<T> {
+  await logWrites.get(jobId);
+  const lines = readline.createInterface({
+    input: createReadStream(getLogPath(jobId, log), "utf8"),
+    crlfDelay: Infinity,
+  });
+
+  try {
+    for await (const line of lines) {
+      let value: T;
+      try {
+        value = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      yield value;
+    }
+  } catch (error) {
+    // Nothing has been logged yet
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  } finally {
+    lines.close();
+  }
+}
+
+/**
+ * Log a row error, keeping the first ones for the completion message
+ */
+function addJobError(job: Job, message: string): void {
+  job.errorCount++;
+  if (job.errors.length < MAX_LISTED_ERRORS) {
+    job.errors.push(message);
+  }
+  void appendLog(job.id, "errors", [message]);
+}
+
+/**
+ * Fold the progress messages of every run into each event's outcome flags
+ */
+async function readOutcomes(job: Job): Promise<Uint8Array> {
+  const outcomes = new Uint8Array(job.totalEvents);
+  for await (const message of readLog<JobMessage>(job.id, "messages")) {
+    const { type, eventIndex, result } = message.data as {
+      type?: string;
+      eventIndex?: number;
+      result?: ProcessingResult;
+    };
+    if (type !== "progress" || typeof eventIndex !== "number" || !result) {
+      continue;
+    }
+    outcomes[eventIndex] =
+      REACHED |
+      (result.success ? SUCCEEDED : 0) |
+      (result.alreadyPublished ? ALREADY_PUBLISHED : 0) |
+      (result.tagError ? TAG_FAILED : 0);
+  }
+  return outcomes;
+}
+
+/**
+ * Each event's latest result, without events no run has reached
+ */
+async function readResults(job: Job): Promise<ProcessingResult[]> {
+  const results: Array<ProcessingResult | null> = new Array(job.totalEvents).fill(null);
+  for await (const message of readLog<JobMessage>(job.id, "messages")) {
+    const { type, eventIndex, result } = message.data as {
+      type?: string;
+      eventIndex?: number;
+      result?: ProcessingResult;
+    };
+    if (type === "progress" && typeof eventIndex === "number" && result) {
+      results[eventIndex] = result;
+    }
+  }
+  return results.filter((result): result is ProcessingResult => !!result);
+}
+
+/**
+ * The logged events at the given indexes, in order. Consecutive events for
+ * the same email are grouped, as they were when first published.
+ */
+async function* readEventGroups(jobId: string, eventIndexes: number[]): AsyncGenerator<IntercomEvent[]> {
+  let next = 0;
+  let eventIndex = 0;
+  let group: IntercomEvent[] = [];
+
+  for await (const event of readLog<IntercomEvent>(jobId, "events")) {
+    if (eventIndexes[next] === eventIndex) {
+      next++;
+      if (group.length > 0 && group[0].email !== event.email) {
+        yield group;
+        group = [];
+      }
+      group.push(event);
+    }
+    eventIndex++;
+  }
+
+  if (group.length > 0) {
+    yield group;
+  }
+}
+
+/**
+ * Strip the in-memory row errors from a job
+ */
+function toJobSummary(job: Job): JobSummary {
+  const { errors: _errors, errorCount: _errorCount, reading: _reading, ...summary } = job;
+  return summary;
+}
+
+/**
+ * Create and persist a new running job, with no events until it is run
+ */
+export async function createJob(options: CreateJobOptions): Promise<JobSummary> {
+  const now = Math.floor(Date.now() / 1000);
+  const job: Job = {
+    id: randomUUID(),
+    status: "running",
+    testMode: options.testMode,
+    mapping: options.mapping,
+    eventSettings: options.eventSettings,
+    fileEventSettings: options.fileEventSettings,
+    createdAt: now,
+    updatedAt: now,
+    totalEvents: 0,
+    totalProcessed: 0,
+    completedEvents: 0,
+    successful: 0,
+    failed: 0,
+    alreadyPublished: 0,
+    tagFailed: 0,
+    lastEventId: 0,
+    runStartedEventId: 0,
+    errors: [],
+    errorCount: 0,
+  };
+
+  jobs.set(job.id, job);
+  await queuePersist(job);
+  return toJobSummary(job);
+}
+
+/**
+ * Load a job from memory, falling back to disk. Jobs read from disk are not
+ * kept in memory unless they are run again.
+ * A job found on disk as "running" was cut off by a server restart.
+ */
+async function loadJob(jobId: string): Promise<Job | null> {
+  const cached = jobs.get(jobId);
+  if (cached) {
+    return cached;
+  }
+
+  // Job IDs are UUIDs; reject anything else before touching the filesystem
+  if (!/^[0-9a-f-]{36}$/i.test(jobId)) {
+    return null;
+  }
+
+  try {
+    const content = await fs.readFile(getJobPath(jobId), "utf8");
+    const job = JSON.parse(content) as Job;
+    // Another request may have started running it while the file was read
+    const running = jobs.get(jobId);
+    if (running) {
+      return running;
+    }
+    if (job.status === "running") {
+      job.status = "interrupted";
+      job.error = "The server stopped before this job finished";
+    }
+    return job;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get a job's current status without its logs
+ */
+export async function getJob(jobId: string): Promise<JobSummary | null> {
+  const job = await loadJob(jobId);
+  return job ? toJobSummary(job) : null;
+}
+
+/**
+ * Build the run report for a job from its logs
+ */
+export async function getJobReport(jobId: string): Promise<RunReport | null> {
+  const job = await loadJob(jobId);
+  if (!job) {
+    return null;
+  }
+
+  const errors: string[] = [];
+  for await (const error of readLog<string>(job.id, "errors")) {
+    errors.push(error);
+  }
+  return buildRunReport(toJobSummary(job), await readResults(job), errors);
+}
+
+/**
+ * Append a message to a job, update its counters and notify subscribers
+ */
+export function appendJobMessage(
+  jobId: string,
+  data: Record<string, unknown>
+): void {
+  const job = jobs.get(jobId);
+  if (!job) {
+    return;
+  }
+
+  const message: JobMessage = { id: job.lastEventId + 1, data };
+  job.lastEventId = message.id;
+  job.updatedAt = Math.floor(Date.now() / 1000);
+
+  switch (data.type) {
+    case "start":
+      job.completedEvents = 0;
+      break;
+    case "progress":
+      job.completedEvents = Number(data.index) || job.completedEvents;
+      break;
+    case "complete":
+      job.status = "complete";
+      job.error = undefined;
+      break;
+    case "error":
+      job.status = "error";
+      job.error = typeof data.error === "string" ? data.error : "Unknown error occurred";
+      break;
+  }
+
+  void appendLog(jobId, "messages", [message]);
+  listeners.get(jobId)?.forEach((listener) => listener(message));
+  schedulePersist(job);
+}
+
+/**
+ * Create an SSE stream for a job, replaying every message after `lastEventId`
+ * from the log and then following new messages until the job finishes.
+ * Messages are only read as fast as the client takes them.
+ */
+export async function createJobEventStream(
+  jobId: string,
+  lastEventId: number = 0
+): Promise<ReadableStream<Uint8Array> | null> {
+  const job = await loadJob(jobId);
+  if (!job) {
+    return null;
+  }
+
+  const encoder = new TextEncoder();
+  let lastSentId = lastEventId;
+  let replay: AsyncGenerator<JobMessage> | undefined = readLog<JobMessage>(jobId, "messages");
+  // New messages wait here while the log is replayed or the client is busy
+  const live: JobMessage[] = [];
+  let behind = false;
+  let wake: (() => void) | undefined;
+  let unsubscribe: (() => void) | undefined;
+
+  // Subscribe before replaying, so no message falls between the log and the live ones
+  if (job.status === "running") {
+    const listener: JobListener = (message) => {
+      if (live.length < MAX_LIVE_MESSAGES) {
+        live.push(message);
+      } else {
+        // Too far behind: the skipped messages are read back from the log
+        behind = true;
+      }
+      wake?.();
+    };
+
+    const jobListeners = listeners.get(jobId) || new Set<JobListener>();
+    jobListeners.add(listener);
+    listeners.set(jobId, jobListeners);
+    unsubscribe = () => {
+      jobListeners.delete(listener);
+      if (jobListeners.size === 0) {
+        listeners.delete(jobId);
+      }
+    };
+  }
+
+  const nextMessage = async (): Promise<JobMessage | undefined> => {
+    while (true) {
+      if (replay) {
+        const next = await replay.next();
+        if (!next.done) {
+          return next.value;
+        }
+        replay = undefined;
+      }
+      if (live.length > 0) {
+        return live.shift();
+      }
+      if (behind) {
+        behind = false;
+        replay = readLog<JobMessage>(jobId, "messages");
+        continue;
+      }
+      if (!unsubscribe || job.status !== "running") {
+        return undefined;
+      }
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        const message = await nextMessage();
+        if (!message) {
+          unsubscribe?.();
+          controller.close();
+          return;
+        }
+        // Replayed and live messages overlap; each is sent once
+        if (message.id > lastSentId) {
+          lastSentId = message.id;
+          controller.enqueue(
+            encoder.encode(`id: ${message.id}\ndata: ${JSON.stringify(message.data)}\n\n`)
+          );
+          return;
+        }
+      }
+    },
+    async cancel() {
+      // Client disconnected; the job keeps running on the server
+      unsubscribe?.();
+      await replay?.return(undefined);
+    },
+  });
+}
+
+/**
+ * Publish events for a job in the background, recording every SSE message on the job.
+ * For a retry, `eventIndexes` are the logged events being published again,
+ * and their outcomes replace the previous ones; counts start from the job's
+ * current counters.
+ */
+async function publishJob(
+  job: Job,
+  groups: AsyncIterable<IntercomEvent[]>,
+  eventIndexes?: number[]
+): Promise<void> {
+  const jobId = job.id;
+  const isRetry = !!eventIndexes;
+  const getTotal = () => (eventIndexes ? eventIndexes.length : job.totalEvents);
+
+  const sendMessage = (data: Record<string, unknown>) => {
+    appendJobMessage(jobId, data);
+  };
+
+  let { successful, failed, alreadyPublished, tagFailed } = job;
+  let totalRetries = 0;
+
+  job.status = "running";
+  job.runStartedEventId = job.lastEventId;
+
+  // Send start message
+  sendMessage({
+    type: "start",
+    jobId,
+    retry: isRetry,
+    totalEvents: getTotal(),
+    totalProcessed: job.totalProcessed,
+  });
+
+  try {
+    // Create missing contact custom attributes once per run, before any contact is written
+    const customAttributes = job.mapping?.customAttributes || [];
+    if (job.mapping?.createMissingAttributes && customAttributes.length > 0) {
+      const warnings = await ensureContactAttributes(customAttributes, job.testMode);
+      for (const warning of warnings) {
+        if (!job.errors.includes(warning)) {
+          addJobError(job, warning);
+        }
+      }
+    }
+
+    // Publish events with progress callback
+    await publishEventsWithProgress(
+      groups,
+      (result, index, position) => {
+        totalRetries += result.retries || 0;
+        if (result.alreadyPublished) {
+          alreadyPublished++;
+        } else if (result.success) {
+          successful++;
+        } else {
+          failed++;
+        }
+        if (result.tagError) {
+          tagFailed++;
+        }
+        job.successful = successful;
+        job.failed = failed;
+        job.alreadyPublished = alreadyPublished;
+        job.tagFailed = tagFailed;
+
+        // Send progress update; the total grows while rows are still being read
+        sendMessage({
+          type: "progress",
+          result,
+          index,
+          eventIndex: eventIndexes ? eventIndexes[position] : position,
+          total: getTotal(),
+          reading: !!job.reading,
+          successful,
+          failed,
+          alreadyPublished,
+          tagFailed,
+          retries: result.retries || 0,
+          totalRetries,
+        });
+      },
+      job.testMode
+    );
+
+    if (!isRetry && job.totalEvents === 0) {
+      throw new Error(
+        job.totalProcessed === 0
+          ? "No valid attendees found in CSV"
+          : "No events to publish. Ensure CSV contains registration or attendance data."
+      );
+    }
+
+    // Send completion message; results are in the progress messages of every run
+    sendMessage({
+      type: "complete",
+      retry: isRetry,
+      totalProcessed: job.totalProcessed,
+      totalEvents: job.totalEvents,
+      successful,
+      failed,
+      alreadyPublished,
+      tagFailed,
+      totalRetries,
+      errors: job.errors.length > 0 ? job.errors : undefined,
+      errorCount: job.errorCount,
+    });
+  } catch (error) {
+    sendMessage({
+      type: "error",
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    });
+  }
+}
+
+/**
+ * Run a new job: publish its events as `read` produces them, logging each
+ * one so it can be retried later. Resolves once the job has finished.
+ */
+export async function runJob(jobId: string, read: ReadJobEvents): Promise<void> {
+  const job = jobs.get(jobId);
+  if (!job) {
+    return;
+  }
+
+  async function* logEvents(job: Job): AsyncGenerator<IntercomEvent[]> {
+    job.reading = true;
+    const groups = read({
+      onError: (message) => addJobError(job, message),
+      onAttendee: () => {
+        job.totalProcessed++;
+      },
+    });
+    try {
+      for await (const group of groups) {
+        void appendLog(job.id, "events", group);
+        job.totalEvents += group.length;
+        yield group;
+      }
+    } finally {
+      job.reading = false;
+    }
+  }
+
+  await publishJob(job, logEvents(job));
+}
+
+type RetryOutcome =
+  | { job: JobSummary; retrying: number; fromEventId: number }
+  | { error: string; status: number };
+
+/**
+ * Publish a finished job's failed events again.
+ * Events a stopped job read but never reached are retried along with the failures.
+ */
+export async function retryFailedEvents(jobId: string): Promise<RetryOutcome> {
+  const job = await loadJob(jobId);
+  if (!job) {
+    return { error: "Job not found", status: 404 };
+  }
+  if (job.status === "running") {
+    return { error: "Job is still running", status: 409 };
+  }
+
+  // Counts start from the outcomes the retry leaves untouched
+  const outcomes = await readOutcomes(job);
+  const failedIndexes: number[] = [];
+  const counts = { successful: 0, failed: 0, alreadyPublished: 0, tagFailed: 0 };
+  outcomes.forEach((outcome, index) => {
+    if (outcome & REACHED ? !(outcome & SUCCEEDED) : job.status !== "complete") {
+      failedIndexes.push(index);
+      return;
+    }
+    if (outcome & TAG_FAILED) {
+      counts.tagFailed++;
+    }
+    if (outcome & ALREADY_PUBLISHED) {
+      counts.alreadyPublished++;
+    } else if (outcome & SUCCEEDED) {
+      counts.successful++;
+    }
+  });
+
+  if (failedIndexes.length === 0) {
+    return { error: "Job has no failed events to retry", status: 400 };
+  }
+  // Another retry may have started while the log was read
+  if (jobs.get(job.id)?.status === "running") {
+    return { error: "Job is still running", status: 409 };
+  }
+
+  const fromEventId = job.lastEventId;
+  Object.assign(job, counts);
+  jobs.set(job.id, job);
+  void publishJob(job, readEventGroups(job.id, failedIndexes), failedIndexes);
+
+  return { job: toJobSummary(job), retrying: failedIndexes.length, fromEventId };
+}
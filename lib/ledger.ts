@@ -0,0 +1,128 @@
+/**
+ * Persistent ledger of events already published to Intercom
+ *
+ * Stored as a JSON file so re-uploading the same CSV never publishes
+ * the same event for the same contact twice.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { IntercomEvent } from "./types";
+
+interface LedgerEntry {
+  publishedAt: number;
+}
+
+type LedgerData = Record<string, LedgerEntry>;
+
+const LEDGER_PATH =
+  process.env.PUBLISH_LEDGER_PATH ||
+  path.join(process.cwd(), ".data", "publish-ledger.json");
+
+// Minimum time between ledger writes while events are being published
+const WRITE_INTERVAL_MS = 1000;
+
+let ledgerCache: LedgerData | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Load the ledger from disk (cached for the lifetime of the server process)
+ */
+async function loadLedger(): Promise<LedgerData> {
+  if (ledgerCache) {
+    return ledgerCache;
+  }
+
+  try {
+    const content = await fs.readFile(LEDGER_PATH, "utf8");
+    ledgerCache = JSON.parse(content) as LedgerData;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(`Could not read publish ledger at ${LEDGER_PATH}, starting empty: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    ledgerCache = {};
+  }
+
+  return ledgerCache;
+}
+
+/**
+ * Write the ledger to disk atomically (temp file + rename)
+ */
+async function saveLedger(data: LedgerData): Promise<void> {
+  await fs.mkdir(path.dirname(LEDGER_PATH), { recursive: true });
+  const tempPath = `${LEDGER_PATH}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data), "utf8");
+  await fs.rename(tempPath, LEDGER_PATH);
+}
+
+/**
+ * Build the ledger key for an event: workspace + email + event name + event identity.
+ * The identity is the event's name and date, or the CSV file the event came
+ * from when neither is set; null when nothing tells the event apart.
+ */
+export function getLedgerKey(workspaceId: string, event: IntercomEvent): string | null {
+  const eventName = event.metadata?.event_name || "";
+  const eventDate = event.metadata?.event_date || "";
+  const eventIdentity =
+    eventName || eventDate
+      ? [eventName, eventDate].join("|")
+      : event.source_file && `file:${event.source_file}`;
+  if (!eventIdentity) {
+    return null;
+  }
+
+  return [
+    workspaceId,
+    event.email.trim().toLowerCase(),
+    event.event_name,
+    eventIdentity,
+  ].join("::");
+}
+
+/**
+ * Check whether an event has already been published
+ */
+export async function isAlreadyPublished(key: string): Promise<boolean> {
+  const ledger = await loadLedger();
+  return !!ledger[key];
+}
+
+/**
+ * Record an event as published. The ledger is written to disk at most once
+ * per second; call `flushLedger` when a run ends.
+ */
+export async function recordPublished(key: string): Promise<void> {
+  const ledger = await loadLedger();
+  ledger[key] = { publishedAt: Math.floor(Date.now() / 1000) };
+
+  if (!writeTimer) {
+    writeTimer = setTimeout(() => {
+      void flushLedger();
+    }, WRITE_INTERVAL_MS);
+  }
+}
+
+/**
+ * Write any recorded events to disk now
+ */
+export async function flushLedger(): Promise<void> {
+  if (writeTimer) {
+    clearTimeout(writeTimer);
+    writeTimer = null;
+  }
+  if (!ledgerCache) {
+    return;
+  }
+  const ledger = ledgerCache;
+
+  // Serialize writes so concurrent callers never interleave file writes
+  writeQueue = writeQueue
+    .then(() => saveLedger(ledger))
+    .catch((error) => {
+      console.warn(`Could not persist publish ledger: ${error instanceof Error ? error.message : "Unknown error"}`);
+    });
+
+  await writeQueue;
+}
@@ -0,0 +1,137 @@
+/**
+ * Lifecycle events beyond registration and attendance: no-shows,
+ * cancellations, waitlists and declined registrations
+ */
+
+import type {
+  ColumnMapping,
+  EventSettings,
+  LifecycleEventKind,
+  LumaAttendee,
+} from "./types";
+import { resolveEventNames } from "./eventNames";
+import { hasAttendanceDurationColumns } from "./attendance";
+import { parseDateTime } from "./dates";
+
+export const LIFECYCLE_EVENT_NAMES: Record<LifecycleEventKind, string> = {
+  noShow: "no-show",
+  cancelled: "registration-cancelled",
+  waitlisted: "waitlisted",
+  declined: "declined",
+};
+
+export const LIFECYCLE_EVENT_LABELS: Record<LifecycleEventKind, string> = {
+  noShow: "Registered but did not attend (after the event date)",
+  cancelled: "Registration cancelled or refunded",
+  waitlisted: "On the waitlist",
+  declined: "Registration declined by the host",
+};
+
+const LIFECYCLE_EVENT_KINDS = Object.keys(LIFECYCLE_EVENT_NAMES) as LifecycleEventKind[];
+
+// Matched against approval status and status, in order
+const STATUS_PATTERNS: Array<[LifecycleEventKind, RegExp]> = [
+  ["cancelled", /cancel|refund|not attending/],
+  ["declined", /declin|reject/],
+  ["waitlisted", /wait\s*list|waiting list/],
+];
+
+/**
+ * When the event started, from the event date, time and timezone settings
+ */
+export function getEventStartTime(eventSettings?: EventSettings): number | undefined {
+  if (!eventSettings?.eventDate) {
+    return undefined;
+  }
+  return parseDateTime(
+    `${eventSettings.eventDate} ${eventSettings.eventTime || "00:00:00"}`,
+    eventSettings.timezone
+  );
+}
+
+/**
+ * Lifecycle events for one attendee, limited to the kinds selected for the run
+ */
+export function getLifecycleEvents(
+  attendee: LumaAttendee,
+  hasRegistration: boolean,
+  hasAttendance: boolean,
+  eventSettings?: EventSettings,
+  now = Date.now()
+): LifecycleEventKind[] {
+  const selected = eventSettings?.lifecycleEvents || [];
+  if (selected.length === 0) {
+    return [];
+  }
+
+  const statusText = [attendee.approvalStatus, attendee.status]
+    .filter((value): value is string => typeof value === "string")
+    .join(" ")
+    .toLowerCase();
+  const statusKind = STATUS_PATTERNS.find(([, pattern]) => pattern.test(statusText))?.[0];
+
+  let kind: LifecycleEventKind | undefined = statusKind;
+  if (!kind && hasRegistration && !hasAttendance) {
+    const eventStart = getEventStartTime(eventSettings);
+    if (eventStart !== undefined && eventStart < now) {
+      kind = "noShow";
+    }
+  }
+
+  return kind && selected.includes(kind) ? [kind] : [];
+}
+
+/**
+ * Validate the selected lifecycle events, returning a list of error messages
+ */
+export function validateLifecycleEvents(
+  eventSettings?: EventSettings,
+  mapping?: ColumnMapping
+): string[] {
+  const selected = eventSettings?.lifecycleEvents || [];
+  const errors: string[] = [];
+
+  if (!Array.isArray(selected)) {
+    return ["Lifecycle events must be a list"];
+  }
+
+  const unknown = selected.filter((kind) => !LIFECYCLE_EVENT_KINDS.includes(kind));
+  if (unknown.length > 0) {
+    errors.push(`Unknown lifecycle events: ${unknown.join(", ")}`);
+  }
+  const known = selected.filter((kind) => LIFECYCLE_EVENT_KINDS.includes(kind));
+
+  const names = resolveEventNames(eventSettings);
+  for (const kind of known) {
+    const name = LIFECYCLE_EVENT_NAMES[kind];
+    if (name === names.registration || name === names.attendance) {
+      errors.push(`The "${name}" event name is already used for registration or attendance`);
+    }
+  }
+
+  if (known.includes("noShow")) {
+    if (!getEventStartTime(eventSettings) && !mapping?.eventDate) {
+      errors.push("No-show events need the event date");
+    }
+    if (
+      mapping &&
+      !mapping.attendanceDate &&
+      !mapping.hasJoinedEvent &&
+      !mapping.status &&
+      !hasAttendanceDurationColumns(mapping)
+    ) {
+      errors.push("No-show events need an attendance column (attendance date, has joined, status or join/leave times)");
+    }
+  }
+
+  if (
+    mapping &&
+    !mapping.approval_status &&
+    !mapping.status &&
+    known.some((kind) => kind !== "noShow")
+  ) {
+    errors.push("Cancelled, waitlisted and declined events need an approval status or status column");
+  }
+
+  return errors;
+}
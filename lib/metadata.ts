@@ -0,0 +1,120 @@
+/**
+ * Custom event metadata mapped from CSV columns, with Intercom's limits
+ */
+
+import type { ColumnMapping, MetadataColumnMapping } from "./types";
+import { ATTENDANCE_MINUTES_METADATA_KEY, hasAttendanceDurationColumns } from "./attendance";
+
+// Intercom accepts at most 10 metadata keys per event, with values up to 255 characters
+export const MAX_METADATA_KEYS = 10;
+export const MAX_METADATA_VALUE_LENGTH = 255;
+
+// Keys the connector always sets from event settings and the ticket type column
+export const BUILT_IN_METADATA_KEYS = [
+  "event_name",
+  "event_date",
+  "ticket_type",
+  "presenter",
+];
+
+const METADATA_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Suggest a snake_case metadata key for a CSV column name
+ */
+export function suggestMetadataKey(column: string): string {
+  const key = column
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return /^[a-z]/.test(key) ? key : `field_${key}`;
+}
+
+function appliesTo(
+  metadataColumn: MetadataColumnMapping,
+  eventKind: "registration" | "attendance"
+): boolean {
+  return metadataColumn.target === "both" || metadataColumn.target === eventKind;
+}
+
+/**
+ * Validate the custom metadata columns in a mapping, returning a list of error messages
+ */
+export function validateMetadataMappings(mapping: ColumnMapping): string[] {
+  const metadataColumns = mapping.metadataColumns || [];
+  const errors: string[] = [];
+
+  for (const metadataColumn of metadataColumns) {
+    if (!metadataColumn.column) {
+      errors.push(`Metadata key "${metadataColumn.key}" needs a CSV column`);
+    }
+    if (!METADATA_KEY_PATTERN.test(metadataColumn.key)) {
+      errors.push(`Metadata key "${metadataColumn.key}" must be lowercase snake_case (e.g. coupon_code)`);
+    }
+    if (
+      BUILT_IN_METADATA_KEYS.includes(metadataColumn.key) ||
+      metadataColumn.key === ATTENDANCE_MINUTES_METADATA_KEY
+    ) {
+      errors.push(`Metadata key "${metadataColumn.key}" is reserved`);
+    }
+  }
+
+  for (const eventKind of ["registration", "attendance"] as const) {
+    const keys = metadataColumns
+      .filter((metadataColumn) => appliesTo(metadataColumn, eventKind))
+      .map((metadataColumn) => metadataColumn.key);
+
+    const duplicates = keys.filter((key, index) => keys.indexOf(key) !== index);
+    if (duplicates.length > 0) {
+      errors.push(`Duplicate ${eventKind} metadata keys: ${Array.from(new Set(duplicates)).join(", ")}`);
+    }
+
+    // The attendance event also carries the minutes attended when durations are mapped
+    const builtInKeys =
+      eventKind === "attendance" && hasAttendanceDurationColumns(mapping)
+        ? [...BUILT_IN_METADATA_KEYS, ATTENDANCE_MINUTES_METADATA_KEY]
+        : BUILT_IN_METADATA_KEYS;
+    const maxCustomKeys = MAX_METADATA_KEYS - builtInKeys.length;
+    if (keys.length > maxCustomKeys) {
+      errors.push(
+        `The ${eventKind} event can have at most ${maxCustomKeys} custom metadata keys (Intercom allows ${MAX_METADATA_KEYS} including ${builtInKeys.join(", ")})`
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Read the custom metadata for one event kind from a CSV row.
+ * Values longer than Intercom's limit are truncated and reported through `onTruncate`.
+ */
+export function extractMetadata(
+  row: Record<string, string>,
+  mapping: ColumnMapping,
+  eventKind: "registration" | "attendance",
+  onTruncate?: (key: string) => void
+): Record<string, string> {
+  const metadata: Record<string, string> = {};
+
+  for (const metadataColumn of mapping.metadataColumns || []) {
+    if (!appliesTo(metadataColumn, eventKind)) {
+      continue;
+    }
+
+    let value = (row[metadataColumn.column] || "").trim();
+    if (!value) {
+      continue;
+    }
+
+    if (value.length > MAX_METADATA_VALUE_LENGTH) {
+      value = value.slice(0, MAX_METADATA_VALUE_LENGTH);
+      onTruncate?.(metadataColumn.key);
+    }
+
+    metadata[metadataColumn.key] = value;
+  }
+
+  return metadata;
+}
@@ -0,0 +1,61 @@
+/**
+ * Multipart form uploads read as a stream: each uploaded file is written to
+ * a temporary file as it arrives instead of being buffered in memory
+ */
+
+import busboy from "busboy";
+import { createWriteStream, openAsBlob, promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+
+export interface SpooledUpload {
+  /** The form's fields and files, in the order they were sent; files are read from disk */
+  formData: FormData;
+  /** Delete the temporary files once nothing reads them any more */
+  cleanup: () => Promise<void>;
+}
+
+/**
+ * Read a multipart request body, spooling each file to a temporary
+ * directory. The temporary files are removed if reading fails.
+ */
+export async function spoolUpload(request: Request): Promise<SpooledUpload> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "upload-"));
+  const cleanup = () => fs.rm(dir, { recursive: true, force: true });
+
+  try {
+    const parser = busboy({ headers: Object.fromEntries(request.headers) });
+    // Files finish writing out of order; entries are added in form order afterwards
+    const entries: Array<[string, string | Promise<File>]> = [];
+
+    parser.on("field", (name, value) => {
+      entries.push([name, value]);
+    });
+    parser.on("file", (name, stream, info) => {
+      const filePath = path.join(dir, String(entries.length));
+      const file = pipeline(stream, createWriteStream(filePath)).then(
+        async () => new File([await openAsBlob(filePath)], info.filename)
+      );
+      // A failed write surfaces through the request's own failure
+      file.catch(() => {});
+      entries.push([name, file]);
+    });
+
+    if (!request.body) {
+      throw new Error("Request has no form data");
+    }
+    await pipeline(Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>), parser);
+
+    const formData = new FormData();
+    for (const [name, value] of entries) {
+      formData.append(name, await value);
+    }
+    return { formData, cleanup };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
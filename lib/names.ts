@@ -0,0 +1,44 @@
+/**
+ * Contact names: composing them from first/last/preferred name columns and
+ * cleaning up their casing
+ */
+
+import type { ColumnMapping } from "./types";
+
+/**
+ * Title-case a name typed in ALL CAPS or all lowercase ("JANE O'NEIL" becomes
+ * "Jane O'Neil"). Names with mixed casing are left as they are.
+ */
+export function fixNameCase(name: string): string {
+  const letters = name.replace(/[^\p{L}]/gu, "");
+  if (!letters || (letters !== letters.toUpperCase() && letters !== letters.toLowerCase())) {
+    return name;
+  }
+  return name
+    .toLowerCase()
+    .replace(/(^|[\s'’-])(\p{L})/gu, (_, separator: string, letter: string) =>
+      separator + letter.toUpperCase()
+    )
+    .replace(/\bMc(\p{L})/gu, (_, letter: string) => `Mc${letter.toUpperCase()}`);
+}
+
+/**
+ * The contact name for a row. First (or preferred) and last name columns are
+ * joined when the row has a given name, or when no name column is mapped;
+ * otherwise the name column is used, so a lone last name doesn't replace a
+ * full name. Each part's casing is fixed on its own, so "Bob" + "SMITH"
+ * becomes "Bob Smith".
+ */
+export function getContactName(row: Record<string, string>, mapping: ColumnMapping): string {
+  const value = (column?: string) => {
+    const part = column ? (row[column] || "").trim().replace(/\s+/g, " ") : "";
+    return mapping.fixNameCase ? fixNameCase(part) : part;
+  };
+
+  const givenName = value(mapping.preferredName) || value(mapping.firstName);
+  const fullName = value(mapping.name);
+  if (!givenName && fullName) {
+    return fullName;
+  }
+  return [givenName, value(mapping.lastName)].filter((part) => part).join(" ");
+}
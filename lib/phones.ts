@@ -0,0 +1,37 @@
+/**
+ * Phone number normalization to E.164 (+15551234567), the format Intercom stores
+ */
+
+import {
+  getCountries,
+  isSupportedCountry,
+  parsePhoneNumberFromString,
+  type CountryCode,
+} from "libphonenumber-js";
+import type { ColumnMapping } from "./types";
+
+/**
+ * Countries a default can be picked from, as ISO 3166 codes
+ */
+export const PHONE_COUNTRIES: CountryCode[] = getCountries();
+
+/**
+ * Convert a phone number to E.164. Numbers without a country code are read
+ * as numbers in the default country; null when the value isn't a valid
+ * phone number.
+ */
+export function normalizePhone(value: string, defaultCountry?: CountryCode): string | null {
+  const phoneNumber = parsePhoneNumberFromString(value.trim(), defaultCountry);
+  return phoneNumber && phoneNumber.isValid() ? phoneNumber.number : null;
+}
+
+/**
+ * Validate the default phone country, returning a list of error messages
+ */
+export function validatePhoneCountry(mapping: ColumnMapping): string[] {
+  const country = mapping.defaultPhoneCountry;
+  if (country && !isSupportedCountry(country)) {
+    return [`Unknown phone country "${country}" (use a two-letter code like US)`];
+  }
+  return [];
+}
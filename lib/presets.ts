@@ -0,0 +1,419 @@
+/**
+ * Named mapping presets stored on the server
+ *
+ * A preset keeps the column mapping and reusable event settings for a
+ * recurring CSV export, plus the header signature of the CSV it was saved
+ * from so the preview can pick it again automatically.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type {
+  ColumnMapping,
+  EventSettings,
+  MappingPreset,
+  PresetEventSettings,
+  PresetMatch,
+} from "./types";
+import { validateEventNames } from "./eventNames";
+import { validateMetadataMappings } from "./metadata";
+import { validateCustomAttributeMappings } from "./customAttributes";
+import { validateAttendanceSettings } from "./attendance";
+import { validateLifecycleEvents } from "./lifecycle";
+import { validateTimezone } from "./dates";
+import { validateEmailRules } from "./emails";
+import { validatePhoneCountry } from "./phones";
+import { validateTagTemplates } from "./tags";
+
+export interface PresetInput {
+  name: string;
+  mapping: ColumnMapping;
+  eventSettings?: EventSettings;
+  columns: string[];
+}
+
+type PresetOutcome =
+  | { preset: MappingPreset }
+  | { error: string; status: number };
+
+const PRESETS_PATH =
+  process.env.PRESETS_PATH || path.join(process.cwd(), ".data", "presets.json");
+
+// Minimum header overlap (0-1) for a preset to be suggested
+const MIN_MATCH_SCORE = 0.5;
+
+let presetsCache: MappingPreset[] | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Load presets from disk (cached for the lifetime of the server process)
+ */
+async function loadPresets(): Promise<MappingPreset[]> {
+  if (presetsCache) {
+    return presetsCache;
+  }
+
+  try {
+    const content = await fs.readFile(PRESETS_PATH, "utf8");
+    presetsCache = JSON.parse(content) as MappingPreset[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(`Could not read presets at ${PRESETS_PATH}, starting empty: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+    presetsCache = [];
+  }
+
+  return presetsCache;
+}
+
+/**
+ * Apply a change to the presets and write them to disk atomically (temp file
+ * + rename), one change at a time. The cache only takes the changed list once
+ * it is on disk, so a failed write leaves both as they were.
+ */
+async function savePresets(change: (presets: MappingPreset[]) => MappingPreset[]): Promise<void> {
+  const write = writeQueue.then(async () => {
+    const presets = change(await loadPresets());
+    await fs.mkdir(path.dirname(PRESETS_PATH), { recursive: true });
+    const tempPath = `${PRESETS_PATH}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(presets, null, 2), "utf8");
+    await fs.rename(tempPath, PRESETS_PATH);
+    presetsCache = presets;
+  });
+
+  // A failed write is reported to its caller without blocking later writes
+  writeQueue = write.catch(() => undefined);
+  await write;
+}
+
+/**
+ * Normalize CSV headers into a comparable signature
+ */
+export function getHeaderSignature(columns: string[]): string[] {
+  return Array.from(
+    new Set(columns.map((column) => column.trim().toLowerCase().replace(/\s+/g, " ")))
+  )
+    .filter((column) => column)
+    .sort();
+}
+
+/**
+ * Every CSV column a mapping reads from
+ */
+function getMappedColumns(mapping: ColumnMapping): string[] {
+  const columns: string[] = [];
+
+  for (const [field, value] of Object.entries(mapping)) {
+    if (
+      typeof value === "string" &&
+      !["contactRole", "duplicateRowRule", "defaultPhoneCountry"].includes(field)
+    ) {
+      columns.push(value);
+    }
+  }
+  for (const metadataColumn of mapping.metadataColumns || []) {
+    columns.push(metadataColumn.column);
+  }
+  for (const customAttribute of mapping.customAttributes || []) {
+    columns.push(customAttribute.column);
+  }
+
+  return columns.filter((column) => column);
+}
+
+/**
+ * Keep only the event settings that carry over between uploads
+ */
+function toPresetEventSettings(eventSettings: EventSettings = {}): PresetEventSettings {
+  const {
+    eventName: _eventName,
+    eventDate: _eventDate,
+    eventTime: _eventTime,
+    ...reusable
+  } = eventSettings;
+  return reusable;
+}
+
+// Mapping fields that hold a list or a flag rather than a column name
+const LIST_MAPPING_FIELDS = ["metadataColumns", "customAttributes", "emailChecks"];
+const BOOLEAN_MAPPING_FIELDS = ["createMissingAttributes", "fixNameCase", "keepExistingNames"];
+// Event settings that hold text
+const STRING_EVENT_SETTINGS = [
+  "eventName",
+  "eventDate",
+  "eventTime",
+  "presenter",
+  "timezone",
+  "registrationEventName",
+  "attendanceEventName",
+  "registrationTagTemplate",
+  "attendanceTagTemplate",
+  "minAttendanceUnit",
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a value is missing or a list whose entries all pass `check`
+ */
+function isOptionalList(value: unknown, check: (entry: unknown) => boolean): boolean {
+  return value === undefined || (Array.isArray(value) && value.every(check));
+}
+
+/**
+ * Whether a value is an object whose given fields are all strings
+ */
+function hasStringFields(value: unknown, fields: string[]): boolean {
+  return isObject(value) && fields.every((field) => typeof value[field] === "string");
+}
+
+/**
+ * Check the structure of a preset request body, so the field validators only
+ * ever see well-formed input
+ */
+function validatePresetShape(input: unknown): string[] {
+  if (!isObject(input)) {
+    return ["Preset must be an object"];
+  }
+
+  const errors: string[] = [];
+  const { name, mapping, eventSettings, columns } = input;
+
+  if (name !== undefined && typeof name !== "string") {
+    errors.push("Preset name must be text");
+  }
+  if (!isOptionalList(columns, (column) => typeof column === "string")) {
+    errors.push("Preset columns must be a list of column names");
+  }
+
+  if (mapping !== undefined && !isObject(mapping)) {
+    errors.push("Preset mapping must be an object");
+  } else if (mapping) {
+    for (const [field, value] of Object.entries(mapping)) {
+      if (value === undefined || LIST_MAPPING_FIELDS.includes(field)) {
+        continue;
+      }
+      const isFlag = BOOLEAN_MAPPING_FIELDS.includes(field);
+      if (typeof value !== (isFlag ? "boolean" : "string")) {
+        errors.push(`Mapping field "${field}" must be ${isFlag ? "true or false" : "text"}`);
+      }
+    }
+    const { metadataColumns, customAttributes } = mapping;
+    if (!isOptionalList(metadataColumns, (entry) => hasStringFields(entry, ["column", "key", "target"]))) {
+      errors.push("Metadata columns must be a list of { column, key, target }");
+    }
+    if (
+      !isOptionalList(customAttributes, (entry) => hasStringFields(entry, ["column", "attribute", "type"]))
+    ) {
+      errors.push("Custom attributes must be a list of { column, attribute, type }");
+    }
+    if (!isOptionalList(mapping.emailChecks, (check) => typeof check === "string")) {
+      errors.push("Email checks must be a list");
+    }
+  }
+
+  if (eventSettings !== undefined && !isObject(eventSettings)) {
+    errors.push("Preset event settings must be an object");
+  } else if (eventSettings) {
+    for (const field of STRING_EVENT_SETTINGS) {
+      if (eventSettings[field] !== undefined && typeof eventSettings[field] !== "string") {
+        errors.push(`Event setting "${field}" must be text`);
+      }
+    }
+    if (!isOptionalList(eventSettings.lifecycleEvents, (kind) => typeof kind === "string")) {
+      errors.push("Lifecycle events must be a list");
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate tag templates as they will be checked on upload, where the event
+ * name and date (not kept in presets) are filled in for each file
+ */
+function validatePresetTagTemplates(eventSettings?: EventSettings, mapping?: ColumnMapping): string[] {
+  return validateTagTemplates(
+    {
+      ...eventSettings,
+      eventName: eventSettings?.eventName?.trim() || "Event",
+      eventDate: eventSettings?.eventDate?.trim() || "2000-01-01",
+    },
+    mapping
+  );
+}
+
+/**
+ * Validate a preset, returning a list of error messages
+ */
+function validatePresetInput(input: PresetInput): string[] {
+  const shapeErrors = validatePresetShape(input);
+  if (shapeErrors.length > 0) {
+    return shapeErrors;
+  }
+
+  const errors: string[] = [];
+
+  if (!input?.name?.trim()) {
+    errors.push("Preset name is required");
+  }
+  if (!input?.mapping?.email) {
+    errors.push("Email column mapping is required");
+  }
+  if (!Array.isArray(input?.columns) || input.columns.length === 0) {
+    errors.push("Preset needs the CSV columns it was created from");
+  }
+  if (input?.mapping) {
+    errors.push(
+      ...validateMetadataMappings(input.mapping),
+      ...validateCustomAttributeMappings(input.mapping),
+      ...validateEmailRules(input.mapping),
+      ...validatePhoneCountry(input.mapping)
+    );
+  }
+  errors.push(
+    ...validateEventNames(input?.eventSettings),
+    ...validateAttendanceSettings(input?.eventSettings),
+    ...validateLifecycleEvents(input?.eventSettings, input?.mapping),
+    ...validateTimezone(input?.eventSettings),
+    ...validatePresetTagTemplates(input?.eventSettings, input?.mapping)
+  );
+
+  return errors;
+}
+
+/**
+ * List presets, sorted by name
+ */
+export async function listPresets(): Promise<MappingPreset[]> {
+  const presets = await loadPresets();
+  return [...presets].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get a preset by ID
+ */
+export async function getPreset(presetId: string): Promise<MappingPreset | null> {
+  const presets = await loadPresets();
+  return presets.find((preset) => preset.id === presetId) || null;
+}
+
+/**
+ * Create a preset. Names are unique (case-insensitive).
+ */
+export async function createPreset(input: PresetInput): Promise<PresetOutcome> {
+  const errors = validatePresetInput(input);
+  if (errors.length > 0) {
+    return { error: errors.join("; "), status: 400 };
+  }
+
+  const presets = await loadPresets();
+  const name = input.name.trim();
+  if (presets.some((preset) => preset.name.toLowerCase() === name.toLowerCase())) {
+    return { error: `A preset named "${name}" already exists`, status: 409 };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const preset: MappingPreset = {
+    id: randomUUID(),
+    name,
+    mapping: input.mapping,
+    eventSettings: toPresetEventSettings(input.eventSettings),
+    columns: getHeaderSignature(input.columns),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await savePresets((current) => [...current, preset]);
+  return { preset };
+}
+
+/**
+ * Replace a preset's name, mapping, event settings and header signature
+ */
+export async function updatePreset(
+  presetId: string,
+  input: PresetInput
+): Promise<PresetOutcome> {
+  const presets = await loadPresets();
+  const preset = presets.find((candidate) => candidate.id === presetId);
+  if (!preset) {
+    return { error: "Preset not found", status: 404 };
+  }
+
+  const errors = validatePresetInput(input);
+  if (errors.length > 0) {
+    return { error: errors.join("; "), status: 400 };
+  }
+
+  const name = input.name.trim();
+  if (
+    presets.some(
+      (candidate) =>
+        candidate.id !== presetId && candidate.name.toLowerCase() === name.toLowerCase()
+    )
+  ) {
+    return { error: `A preset named "${name}" already exists`, status: 409 };
+  }
+
+  const updated: MappingPreset = {
+    ...preset,
+    name,
+    mapping: input.mapping,
+    eventSettings: toPresetEventSettings(input.eventSettings),
+    columns: getHeaderSignature(input.columns),
+    updatedAt: Math.floor(Date.now() / 1000),
+  };
+
+  await savePresets((current) =>
+    current.map((candidate) => (candidate.id === presetId ? updated : candidate))
+  );
+  return { preset: updated };
+}
+
+/**
+ * Delete a preset, returning false if it did not exist
+ */
+export async function deletePreset(presetId: string): Promise<boolean> {
+  const presets = await loadPresets();
+  if (!presets.some((preset) => preset.id === presetId)) {
+    return false;
+  }
+
+  await savePresets((current) => current.filter((preset) => preset.id !== presetId));
+  return true;
+}
+
+/**
+ * Find the preset whose header signature best matches a CSV's columns.
+ * Presets that read a column missing from the CSV are never matched;
+ * ties go to the most recently updated preset.
+ */
+export async function findMatchingPreset(columns: string[]): Promise<PresetMatch | null> {
+  const presets = await loadPresets();
+  const signature = getHeaderSignature(columns);
+  let best: PresetMatch | null = null;
+
+  for (const preset of presets) {
+    if (!getMappedColumns(preset.mapping).every((column) => columns.includes(column))) {
+      continue;
+    }
+
+    const shared = preset.columns.filter((column) => signature.includes(column)).length;
+    const score = shared / new Set([...preset.columns, ...signature]).size;
+
+    if (
+      score >= MIN_MATCH_SCORE &&
+      (!best ||
+        score > best.score ||
+        (score === best.score && preset.updatedAt > best.preset.updatedAt))
+    ) {
+      best = { preset, score };
+    }
+  }
+
+  return best;
+}
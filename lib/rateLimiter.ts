@@ -0,0 +1,54 @@
+/**
+ * Token bucket shared by every Intercom call made against a workspace
+ */
+
+export interface TokenBucket {
+  take(): Promise<void>;
+}
+
+/**
+ * Create a token bucket that refills at `ratePerSecond` up to `capacity` tokens.
+ * Callers waiting on `take()` are released in FIFO order.
+ */
+export function createTokenBucket(
+  ratePerSecond: number,
+  capacity: number
+): TokenBucket {
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  const waiters: Array<() => void> = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - lastRefill) / 1000) * ratePerSecond);
+    lastRefill = now;
+  };
+
+  const drain = () => {
+    timer = null;
+    refill();
+
+    while (waiters.length > 0 && tokens >= 1) {
+      tokens--;
+      waiters.shift()?.();
+    }
+
+    // Wake up again once the next token is available
+    if (waiters.length > 0) {
+      const waitMs = Math.ceil(((1 - tokens) / ratePerSecond) * 1000);
+      timer = setTimeout(drain, waitMs);
+    }
+  };
+
+  return {
+    take() {
+      return new Promise<void>((resolve) => {
+        waiters.push(resolve);
+        if (!timer) {
+          drain();
+        }
+      });
+    },
+  };
+}
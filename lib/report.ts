@@ -0,0 +1,137 @@
+/**
+ * Run reports: a finished upload job's settings, results and row errors
+ * exported as JSON or as a spreadsheet-friendly CSV
+ */
+
+import Papa from "papaparse";
+import type { JobSummary, ProcessingResult, RunReport } from "./types";
+
+// Values come from the uploaded CSV; keep spreadsheets from running them as formulas
+const UNPARSE_CONFIG: Papa.UnparseConfig = { escapeFormulae: true };
+
+function toIsoString(unixSeconds: number | undefined): string {
+  return unixSeconds ? new Date(unixSeconds * 1000).toISOString() : "";
+}
+
+/**
+ * Build a run report from a job and its results
+ */
+export function buildRunReport(
+  job: JobSummary,
+  results: ProcessingResult[],
+  errors: string[]
+): RunReport {
+  return {
+    jobId: job.id,
+    mode: job.testMode ? "test" : "production",
+    status: job.status,
+    startedAt: toIsoString(job.createdAt),
+    finishedAt: job.status === "running" ? undefined : toIsoString(job.updatedAt),
+    mapping: job.mapping,
+    eventSettings: job.eventSettings,
+    fileEventSettings: job.fileEventSettings,
+    summary: {
+      totalProcessed: job.totalProcessed,
+      totalEvents: job.totalEvents,
+      successful: job.successful,
+      failed: job.failed,
+      alreadyPublished: job.alreadyPublished,
+      tagFailed: job.tagFailed || 0,
+    },
+    results,
+    errors,
+  };
+}
+
+/**
+ * Render a run report as CSV: run details, then one row per event, then row errors
+ */
+export function runReportToCsv(report: RunReport): string {
+  const details: string[][] = [
+    ["job_id", report.jobId],
+    ["mode", report.mode],
+    ["status", report.status],
+    ["started_at", report.startedAt],
+    ["finished_at", report.finishedAt || ""],
+    ["total_processed", String(report.summary.totalProcessed)],
+    ["total_events", String(report.summary.totalEvents)],
+    ["successful", String(report.summary.successful)],
+    ["failed", String(report.summary.failed)],
+    ["already_published", String(report.summary.alreadyPublished)],
+    ["tag_failed", String(report.summary.tagFailed)],
+  ];
+
+  for (const [key, value] of Object.entries(report.eventSettings || {})) {
+    if (value !== undefined && value !== "") {
+      details.push([`event_settings.${key}`, String(value)]);
+    }
+  }
+
+  // Each file of a batch, with the event details actually used for it
+  (report.fileEventSettings || []).forEach(({ filename, eventSettings }, index) => {
+    details.push([`file_${index + 1}.filename`, filename]);
+    for (const [key, value] of Object.entries(eventSettings)) {
+      if (value !== undefined && value !== "") {
+        details.push([`file_${index + 1}.event_settings.${key}`, String(value)]);
+      }
+    }
+  });
+
+  for (const [field, column] of Object.entries(report.mapping || {})) {
+    if (column) {
+      details.push([`mapping.${field}`, typeof column === "string" ? column : JSON.stringify(column)]);
+    }
+  }
+
+  const results = Papa.unparse(
+    {
+      fields: [
+        "email",
+        "file",
+        "event",
+        "event_type",
+        "status",
+        "retries",
+        "processed_at",
+        "error",
+        "request_id",
+        "company",
+        "company_error",
+        "tag",
+        "tag_error",
+      ],
+      data: report.results.map((result) => [
+        result.email,
+        result.file || "",
+        result.event || "",
+        result.eventType,
+        result.alreadyPublished ? "already_published" : result.success ? "success" : "failed",
+        String(result.retries || 0),
+        toIsoString(result.processedAt),
+        result.error || "",
+        result.requestId || "",
+        result.company || "",
+        result.companyError || "",
+        result.tag || "",
+        result.tagError || "",
+      ]),
+    },
+    UNPARSE_CONFIG
+  );
+
+  const sections = [Papa.unparse(details, UNPARSE_CONFIG), results];
+
+  if (report.errors.length > 0) {
+    sections.push(
+      Papa.unparse(
+        {
+          fields: ["row_error"],
+          data: report.errors.map((error) => [error]),
+        },
+        UNPARSE_CONFIG
+      )
+    );
+  }
+
+  return sections.join("\r\n\r\n") + "\r\n";
+}
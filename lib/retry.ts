@@ -0,0 +1,118 @@
+/**
+ * Retry policy for Intercom API calls
+ *
+ * Retries rate-limited (429) and transient server errors with jittered
+ * exponential backoff, waiting for Intercom's rate-limit reset when it is given.
+ */
+
+import { IntercomError, IntercomTimeoutError } from "intercom-client";
+import type { TokenBucket } from "./rateLimiter";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Counts retries across every call made on behalf of a single result.
+ * When a limiter is set, every attempt waits for a token first.
+ */
+export interface RetryTracker {
+  retries: number;
+  limiter?: TokenBucket;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: Number(process.env.INTERCOM_MAX_ATTEMPTS) || 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Request options that disable the SDK's built-in retries so this policy is the only one applied
+ */
+export const SDK_REQUEST_OPTIONS = { maxRetries: 0 };
+
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Whether an error is worth retrying (rate limits, timeouts and transient 5xx)
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof IntercomTimeoutError) {
+    return true;
+  }
+  if (error instanceof IntercomError) {
+    return (
+      error.statusCode === undefined ||
+      RETRYABLE_STATUS_CODES.includes(error.statusCode)
+    );
+  }
+  return false;
+}
+
+/**
+ * Read a response header from an Intercom error, if present
+ */
+function getErrorHeader(error: unknown, name: string): string | null {
+  if (!(error instanceof IntercomError)) {
+    return null;
+  }
+  const headers = error.rawResponse?.headers;
+  return headers && typeof headers.get === "function" ? headers.get(name) : null;
+}
+
+/**
+ * Calculate how long to wait before the next attempt
+ */
+function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number {
+  // Honor Intercom's rate-limit reset (unix seconds) when rate limited
+  if (error instanceof IntercomError && error.statusCode === 429) {
+    const reset = Number(getErrorHeader(error, "x-ratelimit-reset"));
+    if (reset > 0) {
+      const untilReset = reset * 1000 - Date.now();
+      if (untilReset > 0) {
+        return Math.min(untilReset + Math.random() * 250, policy.maxDelayMs);
+      }
+    }
+
+    const retryAfter = Number(getErrorHeader(error, "retry-after"));
+    if (retryAfter > 0) {
+      return Math.min(retryAfter * 1000, policy.maxDelayMs);
+    }
+  }
+
+  // Full jitter exponential backoff
+  const ceiling = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return Math.random() * ceiling;
+}
+
+/**
+ * Run an Intercom call, retrying retryable errors up to the policy's max attempts
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  tracker?: RetryTracker,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      if (tracker?.limiter) {
+        await tracker.limiter.take();
+      }
+      return await operation();
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      if (tracker) {
+        tracker.retries++;
+      }
+
+      const delay = getRetryDelay(error, attempt, policy);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
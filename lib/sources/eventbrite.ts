@@ -0,0 +1,66 @@
+/**
+ * Eventbrite attendee summary exports
+ */
+
+import {
+  FULL_NAME_COLUMN,
+  addFullName,
+  normalizeColumnName,
+  scoreColumns,
+  suggestMappingFromAliases,
+  toEventDateTime,
+  type SourceAdapter,
+} from "./shared";
+
+// Headers only Eventbrite attendee exports have
+const EVENTBRITE_COLUMNS = [
+  "order#",
+  "attendee#",
+  "barcode#",
+  "attendeestatus",
+  "buyeremail",
+  "orderdate",
+  "tickettype",
+];
+
+const DATE_ATTENDING_COLUMN = "Date Attending";
+
+export const eventbriteAdapter: SourceAdapter = {
+  id: "eventbrite",
+  label: "Eventbrite",
+  detect: (columns) => scoreColumns(columns, EVENTBRITE_COLUMNS),
+  suggestMapping: (columns) =>
+    suggestMappingFromAliases(columns, {
+      email: ["email"],
+      name: [normalizeColumnName(FULL_NAME_COLUMN)],
+      phone_number: ["cellphone", "phone", "homephone"],
+      registrationDate: ["orderdate"],
+      attendanceDate: ["check-indate", "checkindate"],
+      ticketType: ["tickettype"],
+      // "Attending", "Checked In", "Not Attending"...
+      status: ["attendeestatus"],
+      company: ["company"],
+      // Organizer-wide exports cover several events
+      eventName: ["eventname"],
+      eventDate: ["dateattending"],
+    }),
+  extractEventSettings({ rows }) {
+    const firstRow = rows[0];
+    if (!firstRow) {
+      return undefined;
+    }
+
+    return {
+      eventName: (firstRow["Event Name"] || "").trim() || undefined,
+      ...toEventDateTime(firstRow[DATE_ATTENDING_COLUMN] || ""),
+    };
+  },
+  normalizeRow(row) {
+    const normalized = addFullName(row, "First Name", "Last Name");
+    if (normalized[DATE_ATTENDING_COLUMN]) {
+      // "Jan 10, 2025 at 6:00 PM" doesn't parse with the "at"
+      normalized[DATE_ATTENDING_COLUMN] = normalized[DATE_ATTENDING_COLUMN].replace(/\s+at\s+/i, " ");
+    }
+    return normalized;
+  },
+};
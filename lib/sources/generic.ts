@@ -0,0 +1,44 @@
+/**
+ * Fallback adapter for CSV files from any other tool
+ */
+
+import {
+  suggestMappingFromAliases,
+  type ColumnAliases,
+  type SourceAdapter,
+} from "./shared";
+
+/**
+ * Common header names for each field, in priority order
+ */
+export const GENERIC_ALIASES: ColumnAliases = {
+  email: ["email", "e-mail", "emailaddress", "e_mail"],
+  name: ["name", "fullname", "full_name", "attendeename", "attendee_name"],
+  firstName: ["first_name", "firstname", "given_name", "givenname"],
+  lastName: ["last_name", "lastname", "surname", "family_name", "familyname"],
+  preferredName: ["preferred_name", "preferredname", "nickname"],
+  phone_number: ["phone_number", "phonenumber", "phone", "phonenum", "mobile", "telephone"],
+  registrationDate: ["created_at", "createdat", "registrationdate", "registration_date", "registered_at", "registeredat"],
+  attendanceDate: ["attendancedate", "attendance_date", "checked_in_at", "checkedinat", "attended_at", "attendedat"],
+  ticketType: ["ticket_name", "ticketname", "tickettype", "ticket_type", "ticket"],
+  approval_status: ["approval_status", "approvalstatus", "approval"],
+  status: ["status"],
+  hasJoinedEvent: ["has_joined_event", "hasjoinedevent", "joined", "attended"],
+  // Schools and districts are tracked as companies
+  company: ["company", "organization", "organisation", "school", "district"],
+  companyId: ["company_id", "companyid", "organization_id", "organizationid"],
+  externalId: ["external_id", "externalid", "user_id", "userid"],
+  eventName: ["eventname", "event_name", "event"],
+  eventDate: ["eventdate", "event_date", "date"],
+  presenter: ["presenter", "speaker"],
+  joinTime: ["jointime", "join_time", "joined_at"],
+  leaveTime: ["leavetime", "leave_time", "left_at"],
+  duration: ["duration", "duration_minutes", "minutes_attended", "attendance_minutes"],
+};
+
+export const genericAdapter: SourceAdapter = {
+  id: "generic",
+  label: "Other CSV",
+  detect: () => 0,
+  suggestMapping: (columns) => suggestMappingFromAliases(columns, GENERIC_ALIASES),
+};
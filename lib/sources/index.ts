@@ -0,0 +1,125 @@
+/**
+ * Source adapters: detect which event platform produced a CSV export and
+ * read it into rows the upload pipeline understands
+ */
+
+import Papa from "papaparse";
+import type { EventSettings, SourceId } from "../types";
+import { eventbriteAdapter } from "./eventbrite";
+import { genericAdapter } from "./generic";
+import { lumaAdapter } from "./luma";
+import { TABLE_PARSE_CONFIG, type SourceAdapter } from "./shared";
+import { zoomAdapter } from "./zoom";
+
+export type { SourceAdapter } from "./shared";
+export { toEventDateTime } from "./shared";
+
+// Generic goes last so it is only used when nothing else matches
+const SOURCE_ADAPTERS: SourceAdapter[] = [lumaAdapter, eventbriteAdapter, zoomAdapter, genericAdapter];
+
+// Below this score a file is treated as a generic CSV
+const MIN_DETECT_SCORE = 0.3;
+
+// Enough of a file to detect its source, read any preamble and take sample rows
+const HEAD_BYTES = 64 * 1024;
+const SAMPLE_ROWS = 5;
+
+/**
+ * Display names, in the order sources are offered in the UI
+ */
+export const SOURCE_LABELS = Object.fromEntries(
+  SOURCE_ADAPTERS.map((adapter) => [adapter.id, adapter.label])
+) as Record<SourceId, string>;
+
+/**
+ * What can be read from the start of an export; rows are streamed separately
+ */
+export interface SourceHead {
+  source: SourceId;
+  columns: string[];
+  /** The first few rows, normalized by the adapter */
+  sampleRows: Record<string, string>[];
+  /** Add to a row's 0-based index to get its line in the file */
+  rowOffset: number;
+  eventSettings?: EventSettings;
+}
+
+export function isSourceId(value: unknown): value is SourceId {
+  return SOURCE_ADAPTERS.some((adapter) => adapter.id === value);
+}
+
+export function getSourceAdapter(id: SourceId): SourceAdapter {
+  return SOURCE_ADAPTERS.find((adapter) => adapter.id === id) || genericAdapter;
+}
+
+/**
+ * The adapter's attendee table, or the whole file when it has no preamble
+ */
+function getTable(adapter: SourceAdapter, text: string): { text: string; headerLine: number } {
+  return adapter.extractTable?.(text) || { text, headerLine: 1 };
+}
+
+function parseTable(text: string, preview?: number) {
+  return Papa.parse<Record<string, string>>(text, { ...TABLE_PARSE_CONFIG, preview });
+}
+
+/**
+ * Pick the adapter whose signature headers best match the file
+ */
+export function detectSource(text: string, filename: string): SourceAdapter {
+  let best = genericAdapter;
+  let bestScore = MIN_DETECT_SCORE;
+
+  for (const adapter of SOURCE_ADAPTERS) {
+    const table = getTable(adapter, text);
+    const columns = parseTable(table.text, 1).meta.fields || [];
+    const score = adapter.detect(columns, filename);
+    if (score > bestScore) {
+      best = adapter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * The start of a file, cut after its last complete line
+ */
+async function readHead(file: Blob): Promise<string> {
+  const text = await file.slice(0, HEAD_BYTES).text();
+  if (file.size <= HEAD_BYTES) {
+    return text;
+  }
+  const lastNewline = text.lastIndexOf("\n");
+  return lastNewline === -1 ? text : text.slice(0, lastNewline + 1);
+}
+
+/**
+ * Read an export's source, columns and event details from the start of the
+ * file, detecting the adapter when none is given
+ */
+export async function readSourceHead(
+  file: Blob,
+  filename: string,
+  sourceId?: SourceId
+): Promise<SourceHead> {
+  const text = await readHead(file);
+  const adapter = sourceId ? getSourceAdapter(sourceId) : detectSource(text, filename);
+  const table = getTable(adapter, text);
+  const parseResult = parseTable(table.text, SAMPLE_ROWS);
+
+  const fields = parseResult.meta.fields || [];
+  const rows = adapter.normalizeRow ? parseResult.data.map(adapter.normalizeRow) : parseResult.data;
+
+  // Columns the adapter derived, such as a full name built from first and last names
+  const derivedColumns = Object.keys(rows[0] || {}).filter((column) => !fields.includes(column));
+
+  return {
+    source: adapter.id,
+    columns: fields.length > 0 ? [...fields, ...derivedColumns] : [],
+    sampleRows: rows,
+    rowOffset: table.headerLine + 1,
+    eventSettings: adapter.extractEventSettings?.({ filename, text, rows }),
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Luma guest list exports ("Event Name - Guests - YYYY-MM-DD-HH-MM-SS.csv")
+ */
+
+import type { EventSettings } from "../types";
+import { GENERIC_ALIASES } from "./generic";
+import { scoreColumns, suggestMappingFromAliases, type SourceAdapter } from "./shared";
+
+// Headers only Luma exports have
+const LUMA_COLUMNS = [
+  "api_id",
+  "approval_status",
+  "has_joined_event",
+  "ticket_name",
+  "ticket_type_id",
+  "checked_in_at",
+  "qr_code_url",
+];
+
+const LUMA_FILENAME_PATTERN = /^(.+?)\s*-\s*Guests\s*-\s*(\d{4}-\d{2}-\d{2}-\d{2}-\d{2}-\d{2})$/;
+
+/**
+ * Extract event name and date from filename
+ * Expected format: "Event Name - Guests - YYYY-MM-DD-HH-MM-SS.csv"
+ */
+function extractEventSettingsFromFilename(filename: string): EventSettings | undefined {
+  // Remove .csv extension
+  const nameWithoutExt = filename.replace(/\.csv$/i, "");
+
+  // Pattern: "Event Name - Guests - YYYY-MM-DD-HH-MM-SS"
+  const match = nameWithoutExt.match(LUMA_FILENAME_PATTERN);
+
+  if (!match) {
+    return undefined;
+  }
+
+  const eventName = match[1].trim();
+  const [year, month, day, hour, minute, second] = match[2].split("-");
+
+  return {
+    eventName,
+    // Format as YYYY-MM-DD for eventDate
+    eventDate: `${year}-${month}-${day}`,
+    // Format as HH:MM:SS for eventTime
+    eventTime: `${hour}:${minute}:${second}`,
+  };
+}
+
+export const lumaAdapter: SourceAdapter = {
+  id: "luma",
+  label: "Luma",
+  detect(columns, filename) {
+    const filenameMatches = LUMA_FILENAME_PATTERN.test(filename.replace(/\.csv$/i, ""));
+    return Math.min(1, scoreColumns(columns, LUMA_COLUMNS) + (filenameMatches ? 0.5 : 0));
+  },
+  suggestMapping: (columns) => suggestMappingFromAliases(columns, GENERIC_ALIASES),
+  extractEventSettings: ({ filename }) => extractEventSettingsFromFilename(filename),
+};
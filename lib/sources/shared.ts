@@ -0,0 +1,151 @@
+/**
+ * Source adapter interface and helpers shared by the adapters
+ */
+
+import type { ColumnMapping, EventSettings, SourceId } from "../types";
+import { parseDateParts } from "../dates";
+
+/**
+ * Fields of a `ColumnMapping` that hold a single CSV column
+ */
+export type MappingField = Exclude<
+  keyof ColumnMapping,
+  | "metadataColumns"
+  | "customAttributes"
+  | "createMissingAttributes"
+  | "contactRole"
+  | "defaultPhoneCountry"
+  | "emailChecks"
+  | "duplicateRowRule"
+  | "fixNameCase"
+  | "keepExistingNames"
+>;
+
+/**
+ * Normalized header names to look for, per field, in priority order
+ */
+export type ColumnAliases = Partial<Record<MappingField, string[]>>;
+
+/**
+ * The start of an export: its first lines and first few rows
+ */
+export interface SourceFile {
+  filename: string;
+  text: string;
+  rows: Record<string, string>[];
+}
+
+/**
+ * Papa Parse options for an attendee table
+ */
+export const TABLE_PARSE_CONFIG = {
+  header: true,
+  skipEmptyLines: true,
+  transformHeader: (header: string) => header.trim(),
+} as const;
+
+/**
+ * Knows how to read the CSV export of one event platform
+ */
+export interface SourceAdapter {
+  id: SourceId;
+  label: string;
+  /**
+   * Cut the attendee table out of an export that has other content around it.
+   * `headerLine` is the 1-based file line of the table's header row.
+   */
+  extractTable?(text: string): { text: string; headerLine: number } | null;
+  /** How confident the adapter is that it produced this file (0-1) */
+  detect(columns: string[], filename: string): number;
+  suggestMapping(columns: string[]): ColumnMapping;
+  extractEventSettings?(file: SourceFile): EventSettings | undefined;
+  /** Clean up a row, optionally adding derived columns */
+  normalizeRow?(row: Record<string, string>): Record<string, string>;
+}
+
+/**
+ * Normalize CSV column names to handle variations
+ */
+export function normalizeColumnName(column: string): string {
+  return column.toLowerCase().trim().replace(/\s+/g, "");
+}
+
+/**
+ * Share of an adapter's signature headers present in the file (0-1)
+ */
+export function scoreColumns(columns: string[], signature: string[]): number {
+  const normalized = columns.map(normalizeColumnName);
+  const found = signature.filter((column) => normalized.includes(column)).length;
+  return found / signature.length;
+}
+
+/**
+ * Suggest a mapping by picking, for each field, the first alias present in the file
+ */
+export function suggestMappingFromAliases(
+  columns: string[],
+  aliases: ColumnAliases
+): ColumnMapping {
+  const mapping: ColumnMapping = { email: "" };
+  const normalizedColumns = columns.map((col) => ({
+    original: col,
+    normalized: normalizeColumnName(col),
+  }));
+
+  for (const [field, names] of Object.entries(aliases) as Array<[MappingField, string[]]>) {
+    for (const name of names) {
+      const column = normalizedColumns.find((col) => col.normalized === name);
+      if (column) {
+        mapping[field] = column.original;
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Split a date into the event settings' date (YYYY-MM-DD) and time (HH:MM:SS),
+ * keeping the wall-clock time as written
+ */
+export function toEventDateTime(value: string): Pick<EventSettings, "eventDate" | "eventTime"> {
+  // A bare date has no time
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    return { eventDate: value.trim() };
+  }
+
+  const parts = parseDateParts(value);
+  if (!parts) {
+    return {};
+  }
+
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return {
+    eventDate: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    eventTime: `${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}`,
+  };
+}
+
+// Column added to rows that only have first and last name columns
+export const FULL_NAME_COLUMN = "Full Name";
+
+/**
+ * Add a "Full Name" column built from first and last name columns, when the row has no full name
+ */
+export function addFullName(
+  row: Record<string, string>,
+  firstNameColumn: string,
+  lastNameColumn: string
+): Record<string, string> {
+  if (row[FULL_NAME_COLUMN] !== undefined) {
+    return row;
+  }
+
+  const fullName = [row[firstNameColumn], row[lastNameColumn]]
+    .map((part) => (part || "").trim())
+    .filter((part) => part)
+    .join(" ");
+
+  return { ...row, [FULL_NAME_COLUMN]: fullName };
+}
@@ -0,0 +1,135 @@
+/**
+ * Streaming an export's rows, so large files are never held in memory whole.
+ * Server only: Papa Parse streams from Node readables.
+ */
+
+import { Readable } from "node:stream";
+import Papa from "papaparse";
+import { getSourceAdapter, type SourceHead } from "./index";
+import { TABLE_PARSE_CONFIG } from "./shared";
+
+// Parse errors kept for logging; the rest are only counted
+const MAX_PARSE_ERRORS = 20;
+
+/**
+ * A file's text, chunk by chunk, without its first lines
+ */
+async function* readText(file: Blob, skipLines: number): AsyncGenerator<string> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let linesToSkip = skipLines;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      let text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+      while (linesToSkip > 0 && text) {
+        const newline = text.indexOf("\n");
+        text = newline === -1 ? "" : text.slice(newline + 1);
+        if (newline !== -1) {
+          linesToSkip--;
+        }
+      }
+      if (text) {
+        yield text;
+      }
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * The normalized rows of a file's attendee table, with their line in the
+ * file. The file is only read ahead while the rows already parsed have been
+ * taken, so a slow caller holds back the parse instead of piling up rows.
+ */
+export async function* readSourceRows(
+  file: File,
+  head: SourceHead
+): AsyncGenerator<{ row: Record<string, string>; rowNumber: number }> {
+  const adapter = getSourceAdapter(head.source);
+  // Lines before the table's header row, such as a Zoom report's summary
+  const skipLines = head.rowOffset - 2;
+
+  const rows: Record<string, string>[] = [];
+  const errors: Papa.ParseError[] = [];
+  let errorCount = 0;
+  let finished = false;
+  let stopped = false;
+  let failure: unknown;
+  let parser: Papa.Parser | undefined;
+  // Wakes the reader once the rows are taken, and the caller once more are parsed
+  let onTaken: (() => void) | undefined;
+  let onParsed: (() => void) | undefined;
+
+  const wake = (waiter: (() => void) | undefined) => waiter?.();
+
+  async function* readWhenTaken(): AsyncGenerator<string> {
+    for await (const text of readText(file, skipLines)) {
+      while (rows.length > 0 && !stopped) {
+        await new Promise<void>((resolve) => {
+          onTaken = resolve;
+        });
+      }
+      if (stopped) {
+        return;
+      }
+      yield text;
+    }
+  }
+
+  Papa.parse<Record<string, string>>(Readable.from(readWhenTaken()), {
+    ...TABLE_PARSE_CONFIG,
+    step: (result, stepParser) => {
+      parser = stepParser;
+      errorCount += result.errors.length;
+      errors.push(...result.errors.slice(0, Math.max(0, MAX_PARSE_ERRORS - errors.length)));
+      rows.push(adapter.normalizeRow ? adapter.normalizeRow(result.data) : result.data);
+      wake(onParsed);
+    },
+    complete: () => {
+      finished = true;
+      wake(onParsed);
+    },
+    error: (error) => {
+      failure = error;
+      finished = true;
+      wake(onParsed);
+    },
+  });
+
+  let rowNumber = head.rowOffset;
+  try {
+    while (true) {
+      const row = rows.shift();
+      if (row) {
+        yield { row, rowNumber: rowNumber++ };
+        continue;
+      }
+      if (failure) {
+        throw failure;
+      }
+      if (finished) {
+        break;
+      }
+      wake(onTaken);
+      await new Promise<void>((resolve) => {
+        onParsed = resolve;
+      });
+    }
+  } finally {
+    // The caller stopped early: stop reading the file
+    if (!finished) {
+      stopped = true;
+      parser?.abort();
+      wake(onTaken);
+    }
+    if (errorCount > 0) {
+      console.warn(`CSV parsing errors in ${file.name} (${errorCount}):`, errors);
+    }
+  }
+}
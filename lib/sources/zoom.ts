@@ -0,0 +1,99 @@
+/**
+ * Zoom webinar attendee reports
+ *
+ * The report starts with webinar and host sections; attendees follow an
+ * "Attendee Details" line. Zoom writes "--" for empty values.
+ */
+
+import Papa from "papaparse";
+import {
+  FULL_NAME_COLUMN,
+  addFullName,
+  normalizeColumnName,
+  scoreColumns,
+  suggestMappingFromAliases,
+  toEventDateTime,
+  type SourceAdapter,
+} from "./shared";
+
+// Headers only Zoom attendee reports have
+const ZOOM_COLUMNS = [
+  "attended",
+  "jointime",
+  "leavetime",
+  "timeinsession(minutes)",
+  "isguest",
+  "registrationtime",
+  "country/regionname",
+];
+
+const ATTENDEE_SECTION = "attendee details";
+const EMPTY_VALUE = "--";
+
+/**
+ * Strip trailing commas Zoom pads section lines with
+ */
+function sectionTitle(line: string): string {
+  return line.replace(/,+\s*$/, "").trim().toLowerCase();
+}
+
+export const zoomAdapter: SourceAdapter = {
+  id: "zoom",
+  label: "Zoom webinar",
+  extractTable(text) {
+    const lines = text.split(/\r?\n/);
+    const sectionIndex = lines.findIndex((line) => sectionTitle(line) === ATTENDEE_SECTION);
+    if (sectionIndex === -1) {
+      return null;
+    }
+
+    return {
+      text: lines.slice(sectionIndex + 1).join("\n"),
+      headerLine: sectionIndex + 2,
+    };
+  },
+  detect: (columns) => scoreColumns(columns, ZOOM_COLUMNS),
+  suggestMapping: (columns) =>
+    suggestMappingFromAliases(columns, {
+      email: ["email"],
+      name: [normalizeColumnName(FULL_NAME_COLUMN), "username(originalname)", "username"],
+      phone_number: ["phone"],
+      registrationDate: ["registrationtime"],
+      // A row per join; attendance comes from the time spent in the webinar
+      joinTime: ["jointime"],
+      leaveTime: ["leavetime"],
+      duration: ["timeinsession(minutes)"],
+      approval_status: ["approvalstatus"],
+      company: ["organization"],
+    }),
+  extractEventSettings({ text }) {
+    // The webinar summary is a header row starting with "Topic" followed by one row of values
+    const lines = text.split(/\r?\n/);
+    const headerIndex = lines.findIndex((line) => /^"?Topic"?,/i.test(line));
+    if (headerIndex === -1 || !lines[headerIndex + 1]) {
+      return undefined;
+    }
+
+    const summary = Papa.parse<Record<string, string>>(
+      `${lines[headerIndex]}\n${lines[headerIndex + 1]}`,
+      { header: true, transformHeader: (header) => header.trim() }
+    ).data[0];
+    if (!summary) {
+      return undefined;
+    }
+
+    const duration = parseInt(summary["Actual Duration (minutes)"] || summary["Duration (minutes)"] || "", 10);
+    return {
+      eventName: (summary["Topic"] || "").trim() || undefined,
+      ...toEventDateTime(summary["Actual Start Time"] || summary["Start Time"] || ""),
+      eventDurationMinutes: duration > 0 ? duration : undefined,
+    };
+  },
+  normalizeRow(row) {
+    const cleaned: Record<string, string> = {};
+    for (const [column, value] of Object.entries(row)) {
+      cleaned[column] = (value || "").trim() === EMPTY_VALUE ? "" : value;
+    }
+    return addFullName(cleaned, "First Name", "Last Name");
+  },
+};
@@ -0,0 +1,135 @@
+/**
+ * Intercom tags applied to contacts for each attendee action
+ */
+
+import type { ColumnMapping, EventSettings } from "./types";
+
+export const DEFAULT_REGISTRATION_TAG_TEMPLATE = "Registered: {eventName}";
+export const DEFAULT_ATTENDANCE_TAG_TEMPLATE = "Attended: {eventName}";
+
+// Placeholders a template may use; each one reads the event setting of the same name
+const TAG_PLACEHOLDER_LABELS = {
+  eventName: "event name",
+  eventDate: "event date",
+  presenter: "presenter",
+} as const;
+
+type TagPlaceholder = keyof typeof TAG_PLACEHOLDER_LABELS;
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+function isTagPlaceholder(placeholder: string): placeholder is TagPlaceholder {
+  return Object.keys(TAG_PLACEHOLDER_LABELS).includes(placeholder);
+}
+
+export interface ResolvedTagNames {
+  registration: string;
+  attendance: string;
+}
+
+/**
+ * Fill a tag template's placeholders from the event settings
+ */
+export function renderTagTemplate(
+  template: string,
+  eventSettings?: EventSettings
+): string {
+  return template
+    .replace(PLACEHOLDER_PATTERN, (match, placeholder: string) => {
+      return isTagPlaceholder(placeholder)
+        ? eventSettings?.[placeholder]?.trim() || ""
+        : match;
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Resolve the tag names for a run, or null when tagging is turned off
+ */
+export function resolveTagNames(eventSettings?: EventSettings): ResolvedTagNames | null {
+  if (!eventSettings?.tagContacts) {
+    return null;
+  }
+
+  return {
+    registration: renderTagTemplate(
+      eventSettings.registrationTagTemplate?.trim() || DEFAULT_REGISTRATION_TAG_TEMPLATE,
+      eventSettings
+    ),
+    attendance: renderTagTemplate(
+      eventSettings.attendanceTagTemplate?.trim() || DEFAULT_ATTENDANCE_TAG_TEMPLATE,
+      eventSettings
+    ),
+  };
+}
+
+/**
+ * Validate one tag template, returning an error message or null if valid
+ */
+function validateTagTemplate(
+  template: string,
+  eventSettings: EventSettings,
+  mapping?: ColumnMapping
+): string | null {
+  let filledPerRow = false;
+  for (const [, placeholder] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!isTagPlaceholder(placeholder)) {
+      return `Unknown placeholder {${placeholder}} (use {eventName}, {eventDate} or {presenter})`;
+    }
+    // A mapped column of the same name fills the placeholder per row
+    if (mapping?.[placeholder]) {
+      filledPerRow = true;
+    } else if (!eventSettings[placeholder]?.trim()) {
+      return `Uses {${placeholder}} but no ${TAG_PLACEHOLDER_LABELS[placeholder]} is set`;
+    }
+  }
+  if (!filledPerRow && !renderTagTemplate(template, eventSettings)) {
+    return "Tag name cannot be empty";
+  }
+  return null;
+}
+
+/**
+ * Validate the configured tag templates, returning a list of error messages
+ */
+export function validateTagTemplates(
+  eventSettings?: EventSettings,
+  mapping?: ColumnMapping
+): string[] {
+  if (!eventSettings?.tagContacts) {
+    return [];
+  }
+
+  const errors: string[] = [];
+
+  const registrationError = validateTagTemplate(
+    eventSettings.registrationTagTemplate?.trim() || DEFAULT_REGISTRATION_TAG_TEMPLATE,
+    eventSettings,
+    mapping
+  );
+  if (registrationError) {
+    errors.push(`Registration tag: ${registrationError}`);
+  }
+
+  const attendanceError = validateTagTemplate(
+    eventSettings.attendanceTagTemplate?.trim() || DEFAULT_ATTENDANCE_TAG_TEMPLATE,
+    eventSettings,
+    mapping
+  );
+  if (attendanceError) {
+    errors.push(`Attendance tag: ${attendanceError}`);
+  }
+
+  const names = resolveTagNames(eventSettings);
+  if (
+    !registrationError &&
+    !attendanceError &&
+    names &&
+    names.registration.toLowerCase() === names.attendance.toLowerCase()
+  ) {
+    errors.push("Registration and attendance tags must be different");
+  }
+
+  return errors;
+}
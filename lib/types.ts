@@ -2,6 +2,8 @@
  * Type definitions for Luma CSV data and Intercom events
  */
 
+import type { CountryCode } from "libphonenumber-js";
+
 export interface LumaAttendee {
   email: string;
   name?: string;
@@ -10,21 +12,67 @@ export interface LumaAttendee {
   attendanceDate?: string;
   ticketType?: string;
   status?: string;
+  approvalStatus?: string;
   hasJoinedEvent?: boolean;
-  [key: string]: string | boolean | undefined; // Allow other CSV columns
+  registrationMetadata?: Record<string, string>;
+  attendanceMetadata?: Record<string, string>;
+  customAttributes?: Record<string, ContactAttributeValue>;
+  company?: string;
+  companyId?: string;
+  externalId?: string;
+  eventName?: string; // From mapped event columns; override the event settings
+  eventDate?: string;
+  presenter?: string;
+  attendanceSessions?: AttendanceSession[]; // One per CSV row when join/leave/duration columns are mapped
+  attendanceMinutes?: number; // Total time attended, merged across sessions
+  [key: string]:
+    | string
+    | number
+    | boolean
+    | Record<string, ContactAttributeValue>
+    | AttendanceSession[]
+    | string[]
+    | undefined; // Allow other CSV columns
+}
+
+/**
+ * Time one attendee spent in a virtual event, from a single CSV row
+ */
+export interface AttendanceSession {
+  joinTime?: number; // ms since epoch
+  leaveTime?: number; // ms since epoch
+  minutes?: number; // From a duration column
 }
 
+export type ContactAttributeValue = string | number | boolean;
+
+export type ContactRole = "user" | "lead";
+
 export interface ProcessedAttendee extends LumaAttendee {
   hasRegistration: boolean;
   hasAttendance: boolean;
+  lifecycleEvents: LifecycleEventKind[]; // Only the kinds selected for the run
 }
 
+/**
+ * Events derived from approval status, status and attendance besides registration and attendance
+ */
+export type LifecycleEventKind = "noShow" | "cancelled" | "waitlisted" | "declined";
+
 export interface IntercomEvent {
   event_name: string;
   created_at: number;
   email: string;
   name?: string;
   phone_number?: string;
+  external_id?: string;
+  role?: ContactRole;
+  custom_attributes?: Record<string, ContactAttributeValue>;
+  tag_name?: string; // Tag to attach to the contact
+  company_name?: string;
+  company_id?: string;
+  source_file?: string; // CSV file the event came from
+  keep_existing_name?: boolean; // Only set the name on contacts without one
   metadata?: {
     event_name?: string;
     event_date?: string;
@@ -34,11 +82,45 @@ export interface IntercomEvent {
   };
 }
 
+/**
+ * Exact request bodies sent to Intercom for a single event
+ */
+export interface IntercomContactPayload {
+  email: string;
+  external_id?: string;
+  role?: ContactRole;
+  name?: string;
+  phone?: string;
+  custom_attributes?: Record<string, ContactAttributeValue>;
+}
+
+export interface IntercomCompanyPayload {
+  company_id: string;
+  name?: string;
+}
+
+export interface IntercomEventPayload {
+  event_name: string;
+  created_at: number;
+  email: string;
+  metadata?: Record<string, string>;
+}
+
 export interface ProcessingResult {
   success: boolean;
   email: string;
-  eventType: 'registered-for-event' | 'attended-event';
+  eventType: string; // Intercom event name that was published
+  event?: string; // Name of the event attended or registered for
+  file?: string; // CSV file the event came from
+  alreadyPublished?: boolean;
+  retries?: number;
+  processedAt?: number;
   error?: string;
+  requestId?: string;
+  tag?: string; // Tag attached to the contact
+  tagError?: string; // Tagging failures don't fail the event
+  company?: string; // Company the contact was attached to
+  companyError?: string; // Company failures don't fail the event
 }
 
 export interface UploadResponse {
@@ -46,13 +128,48 @@ export interface UploadResponse {
   totalProcessed: number;
   successful: number;
   failed: number;
+  alreadyPublished?: number;
+  tagFailed?: number;
   results: ProcessingResult[];
   errors?: string[];
+  errorCount?: number; // Warnings beyond the listed ones are only in the run report
+}
+
+export interface DryRunEvent {
+  contact: IntercomContactPayload;
+  event: IntercomEventPayload;
+  company?: IntercomCompanyPayload;
+  tag?: string;
+}
+
+export interface SkippedRow {
+  file?: string; // Set when several files are imported together
+  row: number;
+  email?: string;
+  reason: string;
+}
+
+export interface DryRunResponse {
+  success: boolean;
+  dryRun: true;
+  totalRows: number;
+  totalProcessed: number;
+  totalEvents: number;
+  eventCounts: Record<string, number>;
+  payloads: DryRunEvent[]; // The first 1,000 events; totalEvents counts them all
+  skipped: SkippedRow[]; // The first 1,000 skipped rows found
+  skippedCount: number;
+  errors?: string[]; // The first 1,000 CSV warnings
+  errorCount: number;
+  error?: string;
 }
 
 export interface ColumnMapping {
   email: string;
   name?: string;
+  firstName?: string; // First, preferred and last name columns win over name when filled in
+  lastName?: string;
+  preferredName?: string;
   phone_number?: string;
   registrationDate?: string;
   attendanceDate?: string;
@@ -60,26 +177,237 @@ export interface ColumnMapping {
   status?: string;
   hasJoinedEvent?: string;
   approval_status?: string;
+  company?: string;
+  companyId?: string;
+  externalId?: string;
+  eventName?: string; // Per-row event identity for exports covering several events
+  eventDate?: string;
+  presenter?: string;
+  joinTime?: string;
+  leaveTime?: string;
+  duration?: string; // Minutes in the session
+  contactRole?: ContactRole; // Role for new contacts (default "user")
+  defaultPhoneCountry?: CountryCode; // For phone numbers written without a country code
+  fixNameCase?: boolean; // Title-case names written in all caps or all lowercase
+  keepExistingNames?: boolean; // Don't overwrite the name of a contact that already has one
+  emailChecks?: EmailCheck[]; // Flag, never change, addresses matching these
+  duplicateRowRule?: DuplicateRowRule; // Which row's values win when rows are merged (default "first")
+  metadataColumns?: MetadataColumnMapping[];
+  customAttributes?: CustomAttributeMapping[];
+  createMissingAttributes?: boolean;
+}
+
+export type EmailCheck = "plusAddressing" | "typoDomains";
+
+export type DuplicateRowRule = "first" | "last";
+
+/**
+ * A CSV column written to a contact custom attribute, converted to `type`
+ */
+export interface CustomAttributeMapping {
+  column: string;
+  attribute: string;
+  type: "string" | "number" | "boolean" | "date";
+}
+
+/**
+ * An extra CSV column sent as event metadata under `key`
+ */
+export interface MetadataColumnMapping {
+  column: string;
+  key: string;
+  target: "registration" | "attendance" | "both";
 }
 
 export interface CSVPreview {
   columns: string[];
   sampleRow: Record<string, string>;
-  totalRows: number;
+  totalRows?: number; // Known once every row has been read
 }
 
+/**
+ * Event platform a CSV export came from
+ */
+export type SourceId = "luma" | "eventbrite" | "zoom" | "generic";
+
 export interface PreviewResponse {
   success: boolean;
   preview: CSVPreview;
+  source?: SourceId; // Detected, or the one requested
   suggestedMapping?: ColumnMapping;
+  matchedPreset?: PresetMatch; // Takes precedence over suggestedMapping
   extractedEventSettings?: EventSettings;
+  files?: PreviewFile[]; // One per uploaded file, in upload order
   error?: string;
 }
 
+/**
+ * Server-Sent Event messages from the preview: the columns as soon as each
+ * file's header is read, a running row count while the rows stream, then
+ * the whole-file check against the given or suggested mapping
+ */
+export type PreviewMessage =
+  | ({ type: "preview" } & PreviewResponse)
+  | { type: "progress"; totalRows: number }
+  | { type: "complete"; totalRows: number; fileRows: number[]; validation: ValidationReport }
+  | { type: "error"; error: string };
+
+/**
+ * One file of a batch preview. The batch shares a mapping, so the preview
+ * columns are the ones every file has.
+ */
+export interface PreviewFile {
+  filename: string;
+  source: SourceId;
+  totalRows?: number; // Known once every row has been read
+  extractedEventSettings?: EventSettings;
+}
+
+export type ValidationIssueKind =
+  | "missingEmail"
+  | "invalidEmail"
+  | "unparseableDate"
+  | "duplicateEmail"
+  | "flaggedEmail"
+  | "invalidPhone";
+
+export interface ValidationRow {
+  file?: string; // Set when several files are previewed together
+  row: number;
+  value?: string;
+}
+
+/**
+ * One kind of problem found in the file. Errors are rows the upload would
+ * skip; warnings are rows it would still publish.
+ */
+export interface ValidationIssue {
+  kind: ValidationIssueKind;
+  severity: "error" | "warning";
+  count: number;
+  rows: ValidationRow[]; // Limited to the first few rows
+}
+
+export interface ValidationReport {
+  totalRows: number;
+  errorCount: number; // Rows with at least one error
+  warningCount: number;
+  issues: ValidationIssue[];
+}
+
 export interface EventSettings {
   eventName?: string;
   eventDate?: string;
   eventTime?: string;
   presenter?: string;
+  timezone?: string; // IANA name for CSV times without an offset; default UTC
+  registrationEventName?: string;
+  attendanceEventName?: string;
+  tagContacts?: boolean;
+  registrationTagTemplate?: string;
+  attendanceTagTemplate?: string;
+  minAttendance?: number; // Only count attendance at or above this, when durations are mapped
+  minAttendanceUnit?: AttendanceThresholdUnit; // Default "minutes"
+  eventDurationMinutes?: number; // Required for a percentage threshold
+  lifecycleEvents?: LifecycleEventKind[]; // Extra events to publish this run
+}
+
+export type AttendanceThresholdUnit = "minutes" | "percent";
+
+/**
+ * Event settings saved with a preset; the event name, date and time belong to each upload
+ */
+export type PresetEventSettings = Omit<EventSettings, "eventName" | "eventDate" | "eventTime">;
+
+export interface MappingPreset {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+  eventSettings: PresetEventSettings;
+  columns: string[]; // Header signature of the CSV the preset was saved from
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PresetMatch {
+  preset: MappingPreset;
+  score: number; // Share of headers in common, 0-1
+}
+
+export interface PresetResponse {
+  success: boolean;
+  preset?: MappingPreset;
+  error?: string;
+}
+
+export interface PresetListResponse {
+  success: boolean;
+  presets?: MappingPreset[];
+  error?: string;
+}
+
+export type JobStatus = "running" | "complete" | "error" | "interrupted";
+
+/**
+ * The event settings one file of a batch was imported with, shared settings included
+ */
+export interface FileEventSettings {
+  filename: string;
+  eventSettings: EventSettings;
 }
 
+export interface JobSummary {
+  id: string;
+  status: JobStatus;
+  testMode: boolean;
+  mapping?: ColumnMapping;
+  eventSettings?: EventSettings;
+  fileEventSettings?: FileEventSettings[]; // Set for batches, in upload order
+  createdAt: number;
+  updatedAt: number;
+  totalEvents: number;
+  totalProcessed: number;
+  completedEvents: number;
+  successful: number;
+  failed: number;
+  alreadyPublished: number;
+  tagFailed: number;
+  lastEventId: number;
+  runStartedEventId: number;
+  error?: string;
+}
+
+export interface JobStatusResponse {
+  success: boolean;
+  job?: JobSummary;
+  error?: string;
+}
+
+export interface RetryJobResponse {
+  success: boolean;
+  job?: JobSummary;
+  retrying?: number;
+  fromEventId?: number;
+  error?: string;
+}
+
+export interface RunReport {
+  jobId: string;
+  mode: "test" | "production";
+  status: JobStatus;
+  startedAt: string;
+  finishedAt?: string;
+  mapping?: ColumnMapping;
+  eventSettings?: EventSettings;
+  fileEventSettings?: FileEventSettings[];
+  summary: {
+    totalProcessed: number;
+    totalEvents: number;
+    successful: number;
+    failed: number;
+    alreadyPublished: number;
+    tagFailed: number;
+  };
+  results: ProcessingResult[];
+  errors: string[];
+}
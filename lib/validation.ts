@@ -0,0 +1,160 @@
+/**
+ * Whole-file validation for the preview step, so problems show up before
+ * anything is published
+ */
+
+import type {
+  ColumnMapping,
+  ValidationIssue,
+  ValidationIssueKind,
+  ValidationReport,
+  ValidationRow,
+} from "./types";
+import { findUnparseableDates } from "./dates";
+import { hasAttendanceDurationColumns } from "./attendance";
+import { checkEmail, isValidEmail, normalizeEmail } from "./emails";
+import { normalizePhone } from "./phones";
+import { MERGE_WINDOW } from "./duplicates";
+
+// Rows listed per issue; the count covers the rest
+export const MAX_REPORTED_ROWS = 50;
+
+export const VALIDATION_ISSUE_LABELS: Record<ValidationIssueKind, string> = {
+  missingEmail: "Blank email",
+  invalidEmail: "Invalid email",
+  unparseableDate: "Unparseable date",
+  duplicateEmail: "Duplicate email (merged)",
+  flaggedEmail: "Flagged email",
+  invalidPhone: "Unreadable phone number",
+};
+
+const ISSUE_SEVERITY: Record<ValidationIssueKind, ValidationIssue["severity"]> = {
+  missingEmail: "error",
+  invalidEmail: "error",
+  unparseableDate: "warning",
+  duplicateEmail: "warning",
+  flaggedEmail: "warning",
+  invalidPhone: "warning",
+};
+
+export interface RowValidator {
+  /** Check one row; `rowNumber` is its line in the file */
+  check(row: Record<string, string>, rowNumber: number, filename: string): void;
+  finish(): ValidationReport;
+}
+
+/**
+ * Create a validator that checks rows against the mapping as they are
+ * streamed, the same way the upload reads them. In a batch, rows are labelled
+ * with their file.
+ */
+export function createRowValidator(mapping: ColumnMapping, batch: boolean): RowValidator {
+  const issues = new Map<ValidationIssueKind, ValidationIssue>();
+  // Duplicate keys of the file being checked, most recently seen last
+  const seen = new Set<string>();
+  let seenFile: string | undefined;
+  let totalRows = 0;
+  let errorCount = 0;
+  let warningCount = 0;
+  // Severities found in the row being checked
+  const rowSeverities = new Set<ValidationIssue["severity"]>();
+
+  const report = (kind: ValidationIssueKind, row: ValidationRow) => {
+    const issue = issues.get(kind) || { kind, severity: ISSUE_SEVERITY[kind], count: 0, rows: [] };
+    issue.count++;
+    if (issue.rows.length < MAX_REPORTED_ROWS) {
+      issue.rows.push(row);
+    }
+    issues.set(kind, issue);
+    rowSeverities.add(issue.severity);
+  };
+
+  // Webinar reports have a row per join, which the upload merges per person
+  const checkDuplicates = !hasAttendanceDurationColumns(mapping);
+
+  const checkRow = (row: Record<string, string>, rowNumber: number, filename: string) => {
+    const location = { file: batch ? filename : undefined, row: rowNumber };
+
+    // Invited rows are skipped by the upload anyway
+    if (
+      mapping.approval_status &&
+      (row[mapping.approval_status] || "").trim().toLowerCase() === "invited"
+    ) {
+      return;
+    }
+
+    // Same rules as the upload's row parser
+    const email = mapping.email ? normalizeEmail(row[mapping.email] || "") : "";
+    if (!email) {
+      report("missingEmail", location);
+      return;
+    }
+    if (!isValidEmail(email)) {
+      report("invalidEmail", { ...location, value: email });
+      return;
+    }
+
+    for (const flag of checkEmail(email, mapping.emailChecks)) {
+      report("flaggedEmail", { ...location, value: flag });
+    }
+
+    // The contact is still created, without the phone number
+    const phone = mapping.phone_number ? (row[mapping.phone_number] || "").trim() : "";
+    if (phone && !normalizePhone(phone, mapping.defaultPhoneCountry)) {
+      report("invalidPhone", { ...location, value: phone });
+    }
+
+    for (const { description } of findUnparseableDates(row, mapping)) {
+      report("unparseableDate", { ...location, value: description });
+    }
+
+    // Multi-event files can list the same person once per event
+    if (checkDuplicates) {
+      if (filename !== seenFile) {
+        seen.clear();
+        seenFile = filename;
+      }
+      const key = [
+        email,
+        mapping.eventName ? (row[mapping.eventName] || "").trim() : "",
+        mapping.eventDate ? (row[mapping.eventDate] || "").trim() : "",
+      ].join("|");
+      if (seen.has(key)) {
+        report("duplicateEmail", { ...location, value: email });
+        seen.delete(key);
+      }
+      seen.add(key);
+      // The upload only merges rows within the same window of people
+      if (seen.size > MERGE_WINDOW) {
+        const [oldest] = seen;
+        seen.delete(oldest);
+      }
+    }
+  };
+
+  return {
+    check(row, rowNumber, filename) {
+      totalRows++;
+      rowSeverities.clear();
+      checkRow(row, rowNumber, filename);
+      if (rowSeverities.has("error")) {
+        errorCount++;
+      }
+      if (rowSeverities.has("warning")) {
+        warningCount++;
+      }
+    },
+
+    finish() {
+      return {
+        totalRows,
+        errorCount,
+        warningCount,
+        // Errors first
+        issues: Array.from(issues.values()).sort(
+          (a, b) => Number(b.severity === "error") - Number(a.severity === "error")
+        ),
+      };
+    },
+  };
+}